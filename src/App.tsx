@@ -2,8 +2,15 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
+import { AuthProvider } from "@/hooks/use-auth";
+import { RequireRole } from "@/components/layout/require-role";
 import Index from "./pages/Index";
+import Login from "./pages/Login";
+import Setup from "./pages/Setup";
+import TeamDashboard from "./pages/TeamDashboard";
+import CategoryProducts from "./pages/CategoryProducts";
+import AdminDashboard from "./pages/AdminDashboard";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -14,11 +21,25 @@ const App = () => (
       <Toaster />
       <Sonner />
       <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
+        <AuthProvider>
+          <Routes>
+            <Route path="/" element={<Index />} />
+            <Route path="/login" element={<Login />} />
+            <Route path="/setup" element={<Setup />} />
+            <Route path="/team" element={<RequireRole role="team"><TeamDashboard /></RequireRole>} />
+            <Route
+              path="/team/categories/:categoryId"
+              element={<RequireRole role="team"><CategoryProducts /></RequireRole>}
+            />
+            <Route path="/admin" element={<Navigate to="/admin/categories" replace />} />
+            <Route
+              path="/admin/:tab/:section?"
+              element={<RequireRole role={["admin", "staff"]}><AdminDashboard /></RequireRole>}
+            />
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </AuthProvider>
       </BrowserRouter>
     </TooltipProvider>
   </QueryClientProvider>
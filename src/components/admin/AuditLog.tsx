@@ -0,0 +1,317 @@
+import { useState, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { ScrollText, Search, Eye } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import type { Json } from "@/integrations/supabase/types";
+import { reservationDateRange } from "@/lib/reservation-filters";
+
+interface AuditEntry {
+  id: string;
+  actor_username: string | null;
+  action: string;
+  entity_type: string;
+  entity_id: string | null;
+  before: Json | null;
+  after: Json | null;
+  created_at: string;
+}
+
+const ENTITY_LABELS: Record<string, string> = {
+  categories: "Category",
+  parts: "Part",
+  inventory_tracking: "Reservation",
+  profiles: "User",
+  teams: "Team",
+  events: "Event",
+  app_settings: "Settings",
+  backup: "Backup",
+};
+
+const ACTION_LABELS: Record<string, string> = {
+  insert: "Created",
+  update: "Updated",
+  delete: "Deleted",
+  create_user: "Created user",
+  delete_user: "Deleted user",
+  reset_password: "Reset password",
+  restore: "Restored backup",
+};
+
+const PAGE_SIZE = 100;
+
+// An ilike pattern matching `term` anywhere, quoted for a PostgREST or() list
+// so commas and brackets in the term aren't read as syntax
+function containsPattern(term: string) {
+  const pattern = `%${term.replace(/[\\%_]/g, "\\$&")}%`;
+  return `"${pattern.replace(/["\\]/g, "\\$&")}"`;
+}
+
+// Keys whose label contains the term, so "reservation" finds inventory_tracking
+function labelMatches(labels: Record<string, string>, term: string) {
+  return Object.keys(labels).filter((key) => labels[key].toLowerCase().includes(term.toLowerCase()));
+}
+
+function describeEntity(entry: AuditEntry) {
+  const snapshot = (entry.after || entry.before) as Record<string, Json> | null;
+  const name = snapshot?.name ?? snapshot?.username;
+  return typeof name === "string" ? name : entry.entity_id || "—";
+}
+
+function changedFields(entry: AuditEntry) {
+  const before = (entry.before || {}) as Record<string, Json>;
+  const after = (entry.after || {}) as Record<string, Json>;
+  return Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter((key) => key !== "updated_at" && JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+    .map((key) => ({ key, before: before[key], after: after[key] }));
+}
+
+function formatValue(value: Json | undefined) {
+  if (value === undefined || value === null) return "—";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+export default function AuditLog() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [entityFilter, setEntityFilter] = useState("all");
+  const [actionFilter, setActionFilter] = useState("all");
+  // Inclusive local dates as yyyy-MM-dd
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [selectedEntry, setSelectedEntry] = useState<AuditEntry | null>(null);
+  // Only the latest request may fill the list, as typing fires several
+  const latestRequest = useRef(0);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    // Wait for a pause in typing before searching
+    const timer = setTimeout(() => loadEntries(0), searchTerm ? 300 : 0);
+    return () => clearTimeout(timer);
+  }, [searchTerm, entityFilter, actionFilter, fromDate, toDate]);
+
+  // Loads one page starting at `offset`; 0 starts the list over
+  const loadEntries = async (offset: number) => {
+    const request = ++latestRequest.current;
+    setIsLoading(true);
+    try {
+      let query = supabase
+        .from("audit_log")
+        .select("id, actor_username, action, entity_type, entity_id, before, after, created_at")
+        .order("created_at", { ascending: false })
+        .order("id");
+
+      if (entityFilter !== "all") query = query.eq("entity_type", entityFilter);
+      if (actionFilter !== "all") query = query.eq("action", actionFilter);
+
+      const dates = reservationDateRange({ from: fromDate, to: toDate });
+      if (dates.from) query = query.gte("created_at", dates.from);
+      if (dates.to) query = query.lt("created_at", dates.to);
+
+      const term = searchTerm.trim();
+      if (term) {
+        const pattern = containsPattern(term);
+        const entityTypes = labelMatches(ENTITY_LABELS, term);
+        const actions = labelMatches(ACTION_LABELS, term);
+        query = query.or(
+          [
+            `actor_username.ilike.${pattern}`,
+            `action.ilike.${pattern}`,
+            `entity_type.ilike.${pattern}`,
+            `entity_id.ilike.${pattern}`,
+            entityTypes.length > 0 ? `entity_type.in.(${entityTypes.join(",")})` : null,
+            actions.length > 0 ? `action.in.(${actions.join(",")})` : null,
+          ]
+            .filter(Boolean)
+            .join(","),
+        );
+      }
+
+      const { data, error } = await query.range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) throw error;
+      if (request !== latestRequest.current) return;
+      setEntries((current) => (offset === 0 ? data || [] : [...current, ...(data || [])]));
+      setHasMore((data || []).length === PAGE_SIZE);
+    } catch (error: any) {
+      if (request !== latestRequest.current) return;
+      toast({
+        title: "Error loading audit log",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      if (request === latestRequest.current) setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ScrollText className="h-5 w-5" />
+          Audit Log
+        </CardTitle>
+        <CardDescription>Changes made by admins, newest first</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-wrap gap-4 mb-6">
+          <div className="relative flex-1">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search by admin, action or record..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-8"
+            />
+          </div>
+          <Select value={entityFilter} onValueChange={setEntityFilter}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Records</SelectItem>
+              {Object.entries(ENTITY_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={actionFilter} onValueChange={setActionFilter}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Actions</SelectItem>
+              {Object.entries(ACTION_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-2">
+            <Input
+              type="date"
+              aria-label="From date"
+              value={fromDate}
+              max={toDate || undefined}
+              onChange={(e) => setFromDate(e.target.value)}
+              className="w-40"
+            />
+            <span className="text-sm text-muted-foreground">to</span>
+            <Input
+              type="date"
+              aria-label="To date"
+              value={toDate}
+              min={fromDate || undefined}
+              onChange={(e) => setToDate(e.target.value)}
+              className="w-40"
+            />
+          </div>
+        </div>
+
+        {entries.length === 0 ? (
+          <div className="text-center py-8">
+            <ScrollText className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">{isLoading ? "Loading..." : "No audit entries found."}</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>Admin</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Record</TableHead>
+                <TableHead>Changes</TableHead>
+                <TableHead className="text-right">Details</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry) => {
+                const changes = entry.action === "update" ? changedFields(entry) : [];
+                return (
+                  <TableRow key={entry.id}>
+                    <TableCell className="text-xs">{new Date(entry.created_at).toLocaleString()}</TableCell>
+                    <TableCell>{entry.actor_username || "Unknown"}</TableCell>
+                    <TableCell>
+                      <Badge variant={entry.action.includes("delete") ? "destructive" : "secondary"}>
+                        {ACTION_LABELS[entry.action] || entry.action}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <span className="text-muted-foreground text-xs">{ENTITY_LABELS[entry.entity_type] || entry.entity_type}</span>
+                      <div className="font-medium">{describeEntity(entry)}</div>
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground max-w-xs truncate">
+                      {changes.map((change) => change.key).join(", ") || "—"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button size="sm" variant="outline" onClick={() => setSelectedEntry(entry)}>
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+
+        {hasMore && (
+          <div className="flex justify-center mt-4">
+            <Button variant="outline" onClick={() => loadEntries(entries.length)} disabled={isLoading}>
+              {isLoading ? "Loading..." : "Load More"}
+            </Button>
+          </div>
+        )}
+
+        <Dialog open={!!selectedEntry} onOpenChange={(open) => !open && setSelectedEntry(null)}>
+          <DialogContent className="max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>
+                {selectedEntry && `${ACTION_LABELS[selectedEntry.action] || selectedEntry.action}: ${describeEntity(selectedEntry)}`}
+              </DialogTitle>
+              <DialogDescription>
+                {selectedEntry &&
+                  `${selectedEntry.actor_username || "Unknown"} · ${new Date(selectedEntry.created_at).toLocaleString()}`}
+              </DialogDescription>
+            </DialogHeader>
+            {selectedEntry && (
+              <div className="max-h-[60vh] overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Field</TableHead>
+                      <TableHead>Before</TableHead>
+                      <TableHead>After</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {changedFields(selectedEntry).map((change) => (
+                      <TableRow key={change.key}>
+                        <TableCell className="font-medium">{change.key}</TableCell>
+                        <TableCell className="text-xs break-all">{formatValue(change.before)}</TableCell>
+                        <TableCell className="text-xs break-all">{formatValue(change.after)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,289 @@
+import { useState, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, Download, RotateCcw, Search, Upload } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import {
+  BACKUP_TABLES,
+  BACKUP_TABLE_LABELS,
+  createBackup,
+  parseBackup,
+  type BackupArchive,
+  type RestoreMode,
+  type RestoreResult,
+} from "@/lib/backup";
+
+const MODE_DESCRIPTIONS: Record<RestoreMode, string> = {
+  merge: "Add missing rows and leave existing ones alone. Open reservations are skipped, as stock doesn't cover them",
+  overwrite: "Add missing rows and reset existing ones to their archived values",
+  replace: "Delete categories, parts, teams, events and reservations, then load the archive",
+};
+
+const MODE_LABELS: Record<RestoreMode, string> = {
+  merge: "Merge",
+  overwrite: "Overwrite",
+  replace: "Replace",
+};
+
+export default function BackupRestore() {
+  const [isExporting, setIsExporting] = useState(false);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [archive, setArchive] = useState<BackupArchive | null>(null);
+  const [issues, setIssues] = useState<string[]>([]);
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  // Outcome of the last run, and whether it was the real restore or a check
+  const [result, setResult] = useState<RestoreResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const handleBackup = async () => {
+    setIsExporting(true);
+    try {
+      const backup = await createBackup();
+
+      const blob = new Blob([JSON.stringify(backup, null, 2)], { type: "application/json" });
+      const link = document.createElement("a");
+      const url = URL.createObjectURL(blob);
+
+      link.setAttribute("href", url);
+      link.setAttribute("download", `robothon_backup_${format(new Date(), "yyyy-MM-dd_HHmm")}.json`);
+      link.style.visibility = "hidden";
+
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+
+      toast({
+        title: "Backup downloaded",
+        description: `${backup.tables.parts.length} parts, ${backup.tables.profiles.length} users and ${backup.tables.inventory_tracking.length} reservations`,
+      });
+    } catch (error: any) {
+      toast({
+        title: "Backup failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const parsed = parseBackup(await file.text());
+    setFileName(file.name);
+    setArchive(parsed.archive);
+    setIssues(parsed.issues);
+    setResult(null);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  };
+
+  const handleModeChange = (value: string) => {
+    setMode(value as RestoreMode);
+    setResult(null);
+  };
+
+  const runRestore = async (dryRun: boolean) => {
+    if (!archive) return;
+
+    setIsRunning(true);
+    try {
+      const { data, error } = await supabase.rpc("restore_backup", {
+        p_archive: archive as unknown as Json,
+        p_mode: mode,
+        p_dry_run: dryRun,
+      });
+
+      if (error) throw error;
+
+      const restoreResult = data as unknown as RestoreResult;
+      setResult(restoreResult);
+
+      if (!dryRun) {
+        const conflicts = Object.values(restoreResult.tables).reduce((total, table) => total + table.conflicts, 0);
+        toast({
+          title: "Backup restored",
+          description: conflicts > 0 ? `${conflicts} rows could not be restored` : "Every row was restored",
+        });
+      }
+    } catch (error: any) {
+      toast({
+        title: dryRun ? "Error checking backup" : "Error restoring backup",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const conflictCount = result
+    ? Object.values(result.tables).reduce((total, table) => total + table.conflicts, 0)
+    : 0;
+  const isRestored = result !== null && !result.dry_run;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Backup & Restore</CardTitle>
+        <CardDescription>
+          Snapshot categories, parts, users, teams, events and reservations to a JSON file, and load one back. User
+          passwords and emails are not part of a backup.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Button variant="outline" onClick={handleBackup} disabled={isExporting}>
+          <Download className="h-4 w-4 mr-2" />
+          {isExporting ? "Preparing..." : "Download Backup"}
+        </Button>
+
+        <div className="space-y-4">
+          <h3 className="font-semibold">Restore</h3>
+          <div className="flex items-center gap-2">
+            <Input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              onChange={handleFileSelect}
+              className="hidden"
+              id="backup-upload"
+            />
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="h-4 w-4 mr-2" />
+              Load Backup File
+            </Button>
+            {fileName && <span className="text-sm text-muted-foreground">{fileName}</span>}
+          </div>
+
+          {issues.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-sm font-medium text-destructive">This file can't be restored:</p>
+              {issues.slice(0, 10).map((issue) => (
+                <p key={issue} className="text-sm text-destructive">
+                  {issue}
+                </p>
+              ))}
+              {issues.length > 10 && (
+                <p className="text-sm text-destructive">…and {issues.length - 10} more problems</p>
+              )}
+            </div>
+          )}
+
+          {archive && (
+            <>
+              <p className="text-sm text-muted-foreground">
+                Backup taken {format(new Date(archive.created_at), "yyyy-MM-dd HH:mm")}
+              </p>
+
+              <div className="space-y-2">
+                <Label>When a row already exists</Label>
+                <RadioGroup value={mode} onValueChange={handleModeChange} disabled={isRestored}>
+                  {(Object.keys(MODE_LABELS) as RestoreMode[]).map((value) => (
+                    <label key={value} className="flex items-start gap-2 text-sm cursor-pointer">
+                      <RadioGroupItem value={value} className="mt-0.5" />
+                      <span>
+                        <span className="font-medium">{MODE_LABELS[value]}</span>
+                        <span className="block text-xs text-muted-foreground">{MODE_DESCRIPTIONS[value]}</span>
+                      </span>
+                    </label>
+                  ))}
+                </RadioGroup>
+                {mode === "replace" && (
+                  <p className="flex items-center gap-2 text-sm text-destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    Anything created since this backup was taken will be lost. Users are kept.
+                  </p>
+                )}
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Data</TableHead>
+                    <TableHead className="text-right">In Backup</TableHead>
+                    {result && (
+                      <>
+                        {mode === "replace" && <TableHead className="text-right">Deleted</TableHead>}
+                        <TableHead className="text-right">Added</TableHead>
+                        <TableHead className="text-right">Updated</TableHead>
+                        <TableHead className="text-right">Unchanged</TableHead>
+                        <TableHead className="text-right">Conflicts</TableHead>
+                      </>
+                    )}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {BACKUP_TABLES.map((table) => {
+                    const summary = result?.tables[table];
+
+                    return (
+                      <TableRow key={table}>
+                        <TableCell className="font-medium">{BACKUP_TABLE_LABELS[table]}</TableCell>
+                        <TableCell className="text-right">{archive.tables[table].length}</TableCell>
+                        {result && (
+                          <>
+                            {mode === "replace" && <TableCell className="text-right">{summary?.deleted ?? "—"}</TableCell>}
+                            <TableCell className="text-right">{summary?.inserted ?? 0}</TableCell>
+                            <TableCell className="text-right">{summary?.updated ?? 0}</TableCell>
+                            <TableCell className="text-right">{summary?.skipped ?? 0}</TableCell>
+                            <TableCell className={summary?.conflicts ? "text-right text-destructive" : "text-right"}>
+                              {summary?.conflicts ?? 0}
+                            </TableCell>
+                          </>
+                        )}
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+
+              {result && result.conflicts.length > 0 && (
+                <div className="space-y-1 max-h-48 overflow-y-auto">
+                  <p className="text-sm font-medium">
+                    {conflictCount} {conflictCount === 1 ? "row" : "rows"} {isRestored ? "were" : "would be"} skipped:
+                  </p>
+                  {result.conflicts.map((conflict, index) => (
+                    <p key={index} className="text-xs text-destructive">
+                      {BACKUP_TABLE_LABELS[conflict.table]} {Object.values(conflict.key).join(" / ")}: {conflict.message}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              {isRestored ? (
+                <p className="text-sm text-muted-foreground">Restored with {MODE_LABELS[mode].toLowerCase()}.</p>
+              ) : (
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={() => runRestore(true)} disabled={isRunning}>
+                    <Search className="h-4 w-4 mr-2" />
+                    Check
+                  </Button>
+                  <Button
+                    variant={mode === "replace" ? "destructive" : "default"}
+                    onClick={() => runRestore(false)}
+                    disabled={isRunning || !result}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    {isRunning ? "Working..." : "Restore"}
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
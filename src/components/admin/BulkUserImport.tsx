@@ -0,0 +1,369 @@
+import { useState, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Upload, Printer, Users } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { readImportFile } from "@/lib/xlsx";
+import { ROLE_LABELS, type UserRole } from "@/hooks/use-auth";
+import { readFunctionError } from "@/lib/functions";
+import { z } from "zod";
+import { csvOptional, formatCsvIssue, readCsv, type CsvIssue } from "@/lib/csv";
+
+// Must match the rule enforced by the admin-bulk-create-users edge function
+const USERNAME_PATTERN = /^[A-Za-z0-9._-]{3,32}$/;
+const MAX_BATCH_SIZE = 200;
+const ROLES = Object.keys(ROLE_LABELS);
+const COLUMNS = ["username", "role", "team"] as const;
+
+const rosterSchema = z
+  .object({
+    username: z.string().trim().regex(USERNAME_PATTERN, "3-32 characters: letters, numbers, . _ -"),
+    role: z
+      .string()
+      .trim()
+      .toLowerCase()
+      .transform((role) => role || "team")
+      .refine((role): role is UserRole => ROLES.includes(role), (role) => ({ message: `Unknown role "${role}"` })),
+    team: csvOptional(z.string()),
+  })
+  .superRefine((row, ctx) => {
+    if (row.role !== "team" && row.team) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["team"],
+        message: `${ROLE_LABELS[row.role]} accounts can't belong to a team`,
+      });
+    }
+  });
+
+interface RosterRow {
+  line: number;
+  username: string;
+  role: UserRole;
+  team: string | null;
+  error: string | null;
+}
+
+interface CreateResult {
+  username: string;
+  role: UserRole;
+  team: string | null;
+  status: "created" | "failed";
+  password?: string;
+  error?: string;
+}
+
+interface BulkUserImportProps {
+  existingUsernames: string[];
+  onImportComplete: () => void;
+}
+
+// Accepts `username[,role[,team]]` per line with an optional header row
+function parseRoster(text: string, existingUsernames: string[]): { rows: RosterRow[]; issues: CsvIssue[] } {
+  const existing = new Set(existingUsernames.map((name) => name.toLowerCase()));
+  const seen = new Set<string>();
+  const table = readCsv(text, rosterSchema, { columns: COLUMNS, header: "optional" });
+
+  const rows = table.rows.map(({ line, values, data, issues }) => {
+    const username = values.username.toLowerCase();
+    let error = issues.length > 0 ? issues.map((issue) => formatCsvIssue(issue, { withLine: false })).join("; ") : null;
+
+    if (!error && existing.has(username)) {
+      error = "Username already exists";
+    } else if (!error && seen.has(username)) {
+      error = "Duplicate in roster";
+    }
+
+    seen.add(username);
+    return {
+      line,
+      username: values.username,
+      role: data?.role ?? "team",
+      team: data ? data.team : values.team || null,
+      error,
+    };
+  });
+
+  return { rows, issues: table.issues };
+}
+
+function escapeHtml(value: string) {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+export default function BulkUserImport({ existingUsernames, onImportComplete }: BulkUserImportProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [rosterText, setRosterText] = useState("");
+  const [results, setResults] = useState<CreateResult[] | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const { rows, issues } = parseRoster(rosterText, existingUsernames);
+  const validRows = rows.filter((row) => !row.error);
+  const createdResults = (results || []).filter((result) => result.status === "created");
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setRosterText(await readImportFile(file));
+    } catch (error: any) {
+      toast({
+        title: "Error reading file",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
+    }
+  };
+
+  const handleCreate = async () => {
+    if (validRows.length > MAX_BATCH_SIZE) {
+      toast({
+        title: "Roster too large",
+        description: `Import at most ${MAX_BATCH_SIZE} accounts at a time.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsCreating(true);
+    try {
+      const { data, error } = await supabase.functions.invoke("admin-bulk-create-users", {
+        body: { users: validRows.map(({ username, role, team }) => ({ username, role, team })) },
+      });
+
+      if (error) {
+        const body = await readFunctionError(error);
+        throw new Error(body?.error || error.message || "Failed to create users");
+      }
+
+      setResults(data.results);
+      toast({
+        title: "Roster imported",
+        description: `${data.created} created, ${data.failed} failed`,
+        variant: data.failed > 0 ? "destructive" : "default",
+      });
+      onImportComplete();
+    } catch (error: any) {
+      toast({
+        title: "Error importing roster",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const printCredentials = () => {
+    const printWindow = window.open("", "_blank");
+    if (!printWindow) {
+      toast({
+        title: "Could not open print window",
+        description: "Allow pop-ups for this site and try again.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const cards = createdResults
+      .map(
+        (result) => `
+          <div class="card">
+            ${result.team ? `<div class="label">Team</div><div class="value">${escapeHtml(result.team)}</div>` : ""}
+            <div class="label">Username</div>
+            <div class="value">${escapeHtml(result.username)}</div>
+            <div class="label">Temporary password</div>
+            <div class="value">${escapeHtml(result.password || "")}</div>
+          </div>`,
+      )
+      .join("");
+
+    printWindow.document.write(`<!doctype html>
+      <html>
+        <head>
+          <title>Robothon Inventory credentials</title>
+          <style>
+            body { font-family: sans-serif; margin: 24px; }
+            .grid { display: grid; grid-template-columns: repeat(2, 1fr); gap: 12px; }
+            .card { border: 1px dashed #888; padding: 12px; break-inside: avoid; }
+            .label { font-size: 11px; color: #555; }
+            .value { font-family: monospace; font-size: 16px; margin-bottom: 8px; }
+            p { font-size: 12px; color: #555; }
+          </style>
+        </head>
+        <body>
+          <h2>Robothon Inventory accounts</h2>
+          <p>Sign in with the username (not an email address). You will be asked to choose a new password.</p>
+          <div class="grid">${cards}</div>
+        </body>
+      </html>`);
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  };
+
+  const handleClose = () => {
+    if (results && createdResults.length > 0 && !confirm("Temporary passwords will not be shown again. Close anyway?")) {
+      return;
+    }
+    setIsOpen(false);
+    setRosterText("");
+    setResults(null);
+  };
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => setIsOpen(true)}>
+        <Upload className="h-4 w-4 mr-2" />
+        Import Roster
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Import Team Roster</DialogTitle>
+            <DialogDescription>
+              {results
+                ? "Temporary passwords are only shown once. Print them before closing."
+                : "One account per line as username,role,team. Role is team, staff or admin (default team); teams that don't exist yet are created."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {results ? (
+            <div className="max-h-[50vh] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Username</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Team</TableHead>
+                    <TableHead>Result</TableHead>
+                    <TableHead>Temporary Password</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.map((result) => (
+                    <TableRow key={result.username}>
+                      <TableCell className="font-medium">{result.username}</TableCell>
+                      <TableCell>{ROLE_LABELS[result.role]}</TableCell>
+                      <TableCell>{result.team || "—"}</TableCell>
+                      <TableCell>
+                        {result.status === "created" ? (
+                          <Badge variant="secondary">Created</Badge>
+                        ) : (
+                          <Badge variant="destructive">{result.error || "Failed"}</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="font-mono">{result.password || "—"}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex gap-2">
+                <Input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".csv,.txt,.xlsx"
+                  onChange={handleFileSelect}
+                  className="hidden"
+                  id="roster-upload"
+                />
+                <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+                  <Upload className="h-4 w-4 mr-2" />
+                  Load CSV / XLSX File
+                </Button>
+              </div>
+              <Textarea
+                value={rosterText}
+                onChange={(e) => setRosterText(e.target.value)}
+                placeholder={"username,role,team\nalice,team,Team Rocket\nbob,team,Team Rocket"}
+                rows={6}
+                className="font-mono text-sm"
+              />
+
+              {issues.map((issue) => (
+                <p key={issue.line} className="text-sm text-destructive">
+                  {formatCsvIssue(issue)}
+                </p>
+              ))}
+
+              {rows.length > 0 && (
+                <div className="max-h-64 overflow-y-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Line</TableHead>
+                        <TableHead>Username</TableHead>
+                        <TableHead>Role</TableHead>
+                        <TableHead>Team</TableHead>
+                        <TableHead>Check</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rows.map((row) => (
+                        <TableRow key={row.line}>
+                          <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                          <TableCell className="font-medium">{row.username || "—"}</TableCell>
+                          <TableCell>{ROLE_LABELS[row.role]}</TableCell>
+                          <TableCell>{row.team || "—"}</TableCell>
+                          <TableCell>
+                            {row.error ? (
+                              <span className="text-xs text-destructive">{row.error}</span>
+                            ) : (
+                              <Badge variant="secondary">OK</Badge>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            {results ? (
+              <>
+                <Button variant="outline" onClick={handleClose}>
+                  Close
+                </Button>
+                <Button onClick={printCredentials} disabled={createdResults.length === 0}>
+                  <Printer className="h-4 w-4 mr-2" />
+                  Print Credentials
+                </Button>
+              </>
+            ) : (
+              <>
+                <Button variant="outline" onClick={handleClose}>
+                  Cancel
+                </Button>
+                <Button onClick={handleCreate} disabled={isCreating || validRows.length === 0}>
+                  <Users className="h-4 w-4 mr-2" />
+                  {isCreating
+                    ? "Creating..."
+                    : `Create ${validRows.length} Account${validRows.length === 1 ? "" : "s"}`}
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -5,11 +5,30 @@ import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { z } from "zod";
+import { csvOptional, csvWholeNumber, formatCsvIssue, readCsv, type CsvIssue } from "@/lib/csv";
+import { DEFAULT_CHECKOUT_LIMIT } from "@/lib/events";
+import { readImportFile } from "@/lib/xlsx";
+
+const COLUMNS = ["name", "description", "checkout_limit"] as const;
+const MAX_LISTED_ISSUES = 3;
+
+const categorySchema = z.object({
+  name: z.string().trim().min(1, "Category name is required"),
+  description: csvOptional(z.string()),
+  checkout_limit: csvOptional(csvWholeNumber.refine((limit) => limit >= 1, "Checkout limit must be at least 1")),
+});
 
 interface CategoryImportProps {
   onImportComplete: () => void;
 }
 
+function describeIssues(issues: CsvIssue[]): string {
+  const listed = issues.slice(0, MAX_LISTED_ISSUES).map((issue) => formatCsvIssue(issue));
+  const more = issues.length - listed.length;
+  return [...listed, ...(more > 0 ? [`…and ${more} more`] : [])].join("; ");
+}
+
 export default function CategoryImport({ onImportComplete }: CategoryImportProps) {
   const [isImporting, setIsImporting] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -21,41 +40,33 @@ export default function CategoryImport({ onImportComplete }: CategoryImportProps
 
     setIsImporting(true);
     try {
-      const text = await file.text();
-      const lines = text.split("\n").filter(line => line.trim());
-      
-      // Skip header row
-      const dataLines = lines.slice(1);
-      
-      const categories = dataLines.map(line => {
-        // Parse CSV line (handle quoted fields)
-        const fields: string[] = [];
-        let currentField = "";
-        let inQuotes = false;
-        
-        for (let i = 0; i < line.length; i++) {
-          const char = line[i];
-          
-          if (char === '"') {
-            inQuotes = !inQuotes;
-          } else if (char === ',' && !inQuotes) {
-            fields.push(currentField.trim());
-            currentField = "";
-          } else {
-            currentField += char;
-          }
+      const table = readCsv(await readImportFile(file, "Categories"), categorySchema, { columns: COLUMNS, header: "optional" });
+      const issues = [...table.issues, ...table.rows.flatMap((row) => row.issues)];
+
+      // Upsert can't touch the same category twice in one statement
+      const seen = new Map<string, number>();
+      table.rows.forEach((row) => {
+        if (!row.data) return;
+        const key = row.data.name.toLowerCase();
+        const firstLine = seen.get(key);
+        if (firstLine !== undefined) {
+          issues.push({ line: row.line, column: "name", message: `Also on line ${firstLine}` });
         }
-        fields.push(currentField.trim());
-        
-        return {
-          name: fields[0]?.replace(/^"|"$/g, '') || "",
-          description: fields[1]?.replace(/^"|"$/g, '') || null,
-          checkout_limit: fields[2] ? parseInt(fields[2]) : 10
-        };
-      }).filter(cat => cat.name); // Filter out empty rows
+        seen.set(key, firstLine ?? row.line);
+      });
+
+      if (issues.length > 0) {
+        throw new Error(describeIssues(issues));
+      }
+
+      const categories = table.rows.flatMap(({ data }) =>
+        data
+          ? [{ name: data.name, description: data.description, checkout_limit: data.checkout_limit ?? DEFAULT_CHECKOUT_LIMIT }]
+          : [],
+      );
 
       if (categories.length === 0) {
-        throw new Error("No valid categories found in CSV file");
+        throw new Error("No valid categories found in the file");
       }
 
       // Insert categories (upsert to handle duplicates)
@@ -127,7 +138,7 @@ Wheels,Robot wheels and tracks,10`;
       <Input
         ref={fileInputRef}
         type="file"
-        accept=".csv"
+        accept=".csv,.xlsx"
         onChange={handleFileSelect}
         disabled={isImporting}
         className="hidden"
@@ -143,7 +154,7 @@ Wheels,Robot wheels and tracks,10`;
         >
           <span>
             <Upload className="h-4 w-4" />
-            {isImporting ? "Importing..." : "Import CSV"}
+            {isImporting ? "Importing..." : "Import CSV / XLSX"}
           </span>
         </Button>
       </Label>
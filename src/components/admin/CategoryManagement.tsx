@@ -11,12 +11,16 @@ import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import PartsManagement from "./PartsManagement";
 import CategoryImport from "./CategoryImport";
+import PartsImport from "./PartsImport";
+import InventoryExport from "./InventoryExport";
 
 interface Category {
   id: number;
   name: string;
   description: string;
   checkout_limit: number;
+  reservation_ttl_minutes: number | null;
+  loan_period_hours: number | null;
   created_at: string;
 }
 
@@ -63,11 +67,13 @@ export default function CategoryManagement({ onStatsUpdate }: CategoryManagement
     const name = formData.get("name") as string;
     const description = formData.get("description") as string;
     const checkoutLimit = parseInt(formData.get("checkout_limit") as string) || 10;
+    const reservationTtl = parseInt(formData.get("reservation_ttl_minutes") as string) || null;
+    const loanPeriod = parseInt(formData.get("loan_period_hours") as string) || null;
 
     try {
       const { error } = await supabase
         .from("categories")
-        .insert([{ name, description, checkout_limit: checkoutLimit }]);
+        .insert([{ name, description, checkout_limit: checkoutLimit, reservation_ttl_minutes: reservationTtl, loan_period_hours: loanPeriod }]);
 
       if (error) throw error;
 
@@ -100,11 +106,13 @@ export default function CategoryManagement({ onStatsUpdate }: CategoryManagement
     const name = formData.get("name") as string;
     const description = formData.get("description") as string;
     const checkoutLimit = parseInt(formData.get("checkout_limit") as string) || 10;
+    const reservationTtl = parseInt(formData.get("reservation_ttl_minutes") as string) || null;
+    const loanPeriod = parseInt(formData.get("loan_period_hours") as string) || null;
 
     try {
       const { error } = await supabase
         .from("categories")
-        .update({ name, description, checkout_limit: checkoutLimit })
+        .update({ name, description, checkout_limit: checkoutLimit, reservation_ttl_minutes: reservationTtl, loan_period_hours: loanPeriod })
         .eq("id", selectedCategory.id);
 
       if (error) throw error;
@@ -172,8 +180,15 @@ export default function CategoryManagement({ onStatsUpdate }: CategoryManagement
               <CardTitle>Category Management</CardTitle>
               <CardDescription>Add, edit, and organize inventory categories</CardDescription>
             </div>
-            <div className="flex gap-2">
+            <div className="flex flex-wrap gap-2 justify-end">
               <CategoryImport onImportComplete={loadCategories} />
+              <PartsImport
+                onImportComplete={() => {
+                  loadCategories();
+                  onStatsUpdate();
+                }}
+              />
+              <InventoryExport />
               <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
                 <DialogTrigger asChild>
                   <Button>
@@ -207,7 +222,29 @@ export default function CategoryManagement({ onStatsUpdate }: CategoryManagement
                           placeholder="Max items per checkout" 
                           required 
                         />
-                        <p className="text-xs text-muted-foreground">Maximum number of items a user can checkout from this category at once</p>
+                        <p className="text-xs text-muted-foreground">Maximum number of items a team can hold from this category at any time</p>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="reservation_ttl_minutes">Reservation Expiry (minutes)</Label>
+                        <Input 
+                          id="reservation_ttl_minutes" 
+                          name="reservation_ttl_minutes" 
+                          type="number" 
+                          min="1"
+                          placeholder="Never expires" 
+                        />
+                        <p className="text-xs text-muted-foreground">Unclaimed reservations are released back to stock after this long. Leave empty to keep them until pickup.</p>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="loan_period_hours">Loan Period (hours)</Label>
+                        <Input 
+                          id="loan_period_hours" 
+                          name="loan_period_hours" 
+                          type="number" 
+                          min="1"
+                          placeholder="No due date" 
+                        />
+                        <p className="text-xs text-muted-foreground">Issued items become overdue after this long. Leave empty for no due date.</p>
                       </div>
                     </div>
                     <DialogFooter className="mt-6">
@@ -320,7 +357,31 @@ export default function CategoryManagement({ onStatsUpdate }: CategoryManagement
                     defaultValue={selectedCategory.checkout_limit || 10}
                     required 
                   />
-                  <p className="text-xs text-muted-foreground">Maximum number of items a user can checkout from this category at once</p>
+                  <p className="text-xs text-muted-foreground">Maximum number of items a team can hold from this category at any time</p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-reservation_ttl_minutes">Reservation Expiry (minutes)</Label>
+                  <Input 
+                    id="edit-reservation_ttl_minutes" 
+                    name="reservation_ttl_minutes" 
+                    type="number"
+                    min="1"
+                    defaultValue={selectedCategory.reservation_ttl_minutes ?? ""}
+                    placeholder="Never expires"
+                  />
+                  <p className="text-xs text-muted-foreground">Unclaimed reservations are released back to stock after this long. Leave empty to keep them until pickup.</p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-loan_period_hours">Loan Period (hours)</Label>
+                  <Input 
+                    id="edit-loan_period_hours" 
+                    name="loan_period_hours" 
+                    type="number"
+                    min="1"
+                    defaultValue={selectedCategory.loan_period_hours ?? ""}
+                    placeholder="No due date"
+                  />
+                  <p className="text-xs text-muted-foreground">Issued items become overdue after this long. Leave empty for no due date.</p>
                 </div>
               </div>
               <DialogFooter className="mt-6">
@@ -0,0 +1,503 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CalendarDays, Edit, Plus, Power, Trash2, Users } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { DEFAULT_CHECKOUT_LIMIT, formatEventDates, type Event } from "@/lib/events";
+
+interface Team {
+  id: string;
+  name: string;
+}
+
+interface Category {
+  id: number;
+  name: string;
+  checkout_limit: number | null;
+}
+
+interface EventManagementProps {
+  events: Event[];
+  onEventsChange: () => void;
+}
+
+export default function EventManagement({ events, onEventsChange }: EventManagementProps) {
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [rosterSizes, setRosterSizes] = useState<Record<string, number>>({});
+  const [isAddOpen, setIsAddOpen] = useState(false);
+  const [editingEvent, setEditingEvent] = useState<Event | null>(null);
+  const [configuringEvent, setConfiguringEvent] = useState<Event | null>(null);
+  const [rosterTeamIds, setRosterTeamIds] = useState<string[]>([]);
+  // Kept as text so an empty field can mean "use the category default"
+  const [limitInputs, setLimitInputs] = useState<Record<number, string>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadOptions();
+  }, [events]);
+
+  const loadOptions = async () => {
+    try {
+      const [teamsResult, categoriesResult, rosterResult] = await Promise.all([
+        supabase.from("teams").select("id, name").order("name"),
+        supabase.from("categories").select("id, name, checkout_limit").order("name"),
+        supabase.from("event_teams").select("event_id"),
+      ]);
+
+      if (teamsResult.error) throw teamsResult.error;
+      if (categoriesResult.error) throw categoriesResult.error;
+      if (rosterResult.error) throw rosterResult.error;
+
+      setTeams(teamsResult.data || []);
+      setCategories(categoriesResult.data || []);
+      setRosterSizes(
+        (rosterResult.data || []).reduce<Record<string, number>>((sizes, row) => {
+          sizes[row.event_id] = (sizes[row.event_id] || 0) + 1;
+          return sizes;
+        }, {})
+      );
+    } catch (error: any) {
+      toast({
+        title: "Error loading event options",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const readEventForm = (form: HTMLFormElement) => {
+    const formData = new FormData(form);
+    return {
+      name: (formData.get("name") as string).trim(),
+      starts_on: (formData.get("starts_on") as string) || null,
+      ends_on: (formData.get("ends_on") as string) || null,
+    };
+  };
+
+  const handleAddEvent = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const values = readEventForm(e.currentTarget);
+
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase.from("events").insert(values).select().single();
+
+      if (error) throw error;
+
+      // New events start with every current team registered; trim the roster afterwards
+      if (teams.length > 0) {
+        const { error: rosterError } = await supabase
+          .from("event_teams")
+          .insert(teams.map((team) => ({ event_id: data.id, team_id: team.id })));
+
+        if (rosterError) throw rosterError;
+      }
+
+      toast({
+        title: "Event created",
+        description: `${values.name} has been created with ${teams.length} team(s) registered.`,
+      });
+      setIsAddOpen(false);
+      onEventsChange();
+    } catch (error: any) {
+      toast({
+        title: "Error creating event",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleEditEvent = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!editingEvent) return;
+    const values = readEventForm(e.currentTarget);
+
+    setIsLoading(true);
+    try {
+      const { error } = await supabase.from("events").update(values).eq("id", editingEvent.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Event updated",
+        description: `${values.name} has been updated.`,
+      });
+      setEditingEvent(null);
+      onEventsChange();
+    } catch (error: any) {
+      toast({
+        title: "Error updating event",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleActivate = async (event: Event | null) => {
+    const current = events.find((e) => e.is_active);
+    const message = event
+      ? `Make "${event.name}" the active event? New reservations will belong to it and only its registered teams can check out.`
+      : `Close "${current?.name}"? Until another event is activated, checkout is open to every team.`;
+    if (!confirm(message)) return;
+
+    try {
+      const { error } = await supabase.rpc("activate_event", { p_event_id: event?.id });
+
+      if (error) throw error;
+
+      toast({
+        title: event ? "Event activated" : "Event closed",
+        description: event ? `${event.name} is now the active event.` : "No event is active.",
+      });
+      onEventsChange();
+    } catch (error: any) {
+      toast({
+        title: "Error changing active event",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeleteEvent = async (event: Event) => {
+    if (
+      !confirm(
+        `Delete event "${event.name}"? Its roster and limits are removed; past reservations are kept but no longer belong to any event.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase.from("events").delete().eq("id", event.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Event deleted",
+        description: `${event.name} has been deleted.`,
+      });
+      onEventsChange();
+    } catch (error: any) {
+      toast({
+        title: "Error deleting event",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openConfigure = async (event: Event) => {
+    try {
+      const [rosterResult, limitsResult] = await Promise.all([
+        supabase.from("event_teams").select("team_id").eq("event_id", event.id),
+        supabase.from("event_category_limits").select("category_id, checkout_limit").eq("event_id", event.id),
+      ]);
+
+      if (rosterResult.error) throw rosterResult.error;
+      if (limitsResult.error) throw limitsResult.error;
+
+      setRosterTeamIds((rosterResult.data || []).map((row) => row.team_id));
+      setLimitInputs(
+        Object.fromEntries((limitsResult.data || []).map((row) => [row.category_id, String(row.checkout_limit)]))
+      );
+      setConfiguringEvent(event);
+    } catch (error: any) {
+      toast({
+        title: "Error loading event",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const toggleRosterTeam = (teamId: string, checked: boolean) => {
+    setRosterTeamIds((current) =>
+      checked ? [...current, teamId] : current.filter((id) => id !== teamId)
+    );
+  };
+
+  const handleSaveConfiguration = async () => {
+    if (!configuringEvent) return;
+
+    const limits = Object.entries(limitInputs)
+      .filter(([, value]) => value.trim() !== "")
+      .map(([categoryId, value]) => ({
+        event_id: configuringEvent.id,
+        category_id: Number(categoryId),
+        checkout_limit: Number(value),
+      }));
+
+    if (limits.some((limit) => !Number.isInteger(limit.checkout_limit) || limit.checkout_limit < 0)) {
+      toast({
+        title: "Invalid limit",
+        description: "Limits must be whole numbers of zero or more.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      // Replace the roster and limits wholesale; both are small
+      const { error: rosterDeleteError } = await supabase
+        .from("event_teams")
+        .delete()
+        .eq("event_id", configuringEvent.id);
+      if (rosterDeleteError) throw rosterDeleteError;
+
+      if (rosterTeamIds.length > 0) {
+        const { error: rosterInsertError } = await supabase
+          .from("event_teams")
+          .insert(rosterTeamIds.map((teamId) => ({ event_id: configuringEvent.id, team_id: teamId })));
+        if (rosterInsertError) throw rosterInsertError;
+      }
+
+      const { error: limitsDeleteError } = await supabase
+        .from("event_category_limits")
+        .delete()
+        .eq("event_id", configuringEvent.id);
+      if (limitsDeleteError) throw limitsDeleteError;
+
+      if (limits.length > 0) {
+        const { error: limitsInsertError } = await supabase.from("event_category_limits").insert(limits);
+        if (limitsInsertError) throw limitsInsertError;
+      }
+
+      toast({
+        title: "Event saved",
+        description: `${configuringEvent.name}: ${rosterTeamIds.length} team(s), ${limits.length} custom limit(s).`,
+      });
+      setConfiguringEvent(null);
+      onEventsChange();
+    } catch (error: any) {
+      toast({
+        title: "Error saving event",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const eventFormFields = (event: Event | null) => (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="event-name">Event Name</Label>
+        <Input id="event-name" name="name" defaultValue={event?.name} placeholder="Robothon 2026" required />
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="event-starts-on">Starts On</Label>
+          <Input id="event-starts-on" name="starts_on" type="date" defaultValue={event?.starts_on ?? ""} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="event-ends-on">Ends On</Label>
+          <Input id="event-ends-on" name="ends_on" type="date" defaultValue={event?.ends_on ?? ""} />
+        </div>
+      </div>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Events</CardTitle>
+            <CardDescription>
+              Each event has its own team roster and checkout limits. Reservations belong to the event that was active when they were made.
+            </CardDescription>
+          </div>
+          <Button onClick={() => setIsAddOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Event
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {events.length === 0 ? (
+          <div className="text-center py-8">
+            <CalendarDays className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">No events yet. Add one and activate it to start scoping reservations.</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Event</TableHead>
+                <TableHead>Dates</TableHead>
+                <TableHead>Teams</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.map((event) => (
+                <TableRow key={event.id}>
+                  <TableCell className="font-medium">{event.name}</TableCell>
+                  <TableCell className="text-muted-foreground">{formatEventDates(event)}</TableCell>
+                  <TableCell>{rosterSizes[event.id] || 0}</TableCell>
+                  <TableCell>
+                    {event.is_active ? <Badge>Active</Badge> : <Badge variant="outline">Inactive</Badge>}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex gap-2 justify-end">
+                      <Button
+                        size="sm"
+                        variant={event.is_active ? "secondary" : "outline"}
+                        onClick={() => handleActivate(event.is_active ? null : event)}
+                      >
+                        <Power className="h-4 w-4 mr-2" />
+                        {event.is_active ? "Close" : "Activate"}
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => openConfigure(event)}>
+                        <Users className="h-4 w-4 mr-2" />
+                        Roster & Limits
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => setEditingEvent(event)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => handleDeleteEvent(event)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={isAddOpen} onOpenChange={setIsAddOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Event</DialogTitle>
+            <DialogDescription>Every existing team is registered; adjust the roster afterwards</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleAddEvent}>
+            {eventFormFields(null)}
+            <DialogFooter className="mt-6">
+              <Button type="button" variant="outline" onClick={() => setIsAddOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isLoading}>
+                {isLoading ? "Creating..." : "Create Event"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!editingEvent} onOpenChange={(open) => !open && setEditingEvent(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit Event</DialogTitle>
+            <DialogDescription>Update the event name and dates</DialogDescription>
+          </DialogHeader>
+          {editingEvent && (
+            <form onSubmit={handleEditEvent}>
+              {eventFormFields(editingEvent)}
+              <DialogFooter className="mt-6">
+                <Button type="button" variant="outline" onClick={() => setEditingEvent(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isLoading}>
+                  {isLoading ? "Saving..." : "Save"}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!configuringEvent} onOpenChange={(open) => !open && setConfiguringEvent(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{configuringEvent?.name}: Roster & Limits</DialogTitle>
+            <DialogDescription>
+              Only registered teams can check out while this event is active. Leave a limit blank to use the category default.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-[60vh] overflow-y-auto space-y-6">
+            <div className="space-y-2">
+              <Label>Registered Teams</Label>
+              {teams.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No teams yet. Create teams under Users.</p>
+              ) : (
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                  {teams.map((team) => (
+                    <label key={team.id} className="flex items-center gap-2 rounded-md border p-2 text-sm cursor-pointer">
+                      <Checkbox
+                        checked={rosterTeamIds.includes(team.id)}
+                        onCheckedChange={(checked) => toggleRosterTeam(team.id, checked === true)}
+                      />
+                      {team.name}
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Checkout Limits</Label>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Default</TableHead>
+                    <TableHead>This Event</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {categories.map((category) => (
+                    <TableRow key={category.id}>
+                      <TableCell className="font-medium">{category.name}</TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {category.checkout_limit ?? DEFAULT_CHECKOUT_LIMIT}
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          className="w-24"
+                          placeholder="Default"
+                          value={limitInputs[category.id] ?? ""}
+                          onChange={(e) => setLimitInputs({ ...limitInputs, [category.id]: e.target.value })}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setConfiguringEvent(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveConfiguration} disabled={isLoading}>
+              {isLoading ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
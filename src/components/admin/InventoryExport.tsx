@@ -0,0 +1,80 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Download } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { toCsv } from "@/lib/csv";
+
+export default function InventoryExport() {
+  const [isExporting, setIsExporting] = useState(false);
+  const { toast } = useToast();
+
+  const exportToCSV = async () => {
+    setIsExporting(true);
+    try {
+      const { data, error } = await supabase
+        .from("parts")
+        .select(`
+          name,
+          description,
+          quantity,
+          barcode,
+          image_url,
+          categories (
+            name
+          )
+        `)
+        .order("name");
+
+      if (error) throw error;
+
+      // Same columns PartsImport reads, so the file can be edited and imported back
+      const headers = ["category", "name", "description", "quantity", "barcode", "image_url"];
+
+      const rows = data
+        .map((part) => [
+          part.categories?.name || "",
+          part.name,
+          part.description || "",
+          part.quantity,
+          part.barcode || "",
+          part.image_url || "",
+        ])
+        .sort((a, b) => String(a[0]).localeCompare(String(b[0])));
+
+      const csvContent = toCsv([headers, ...rows]);
+
+      const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
+      const link = document.createElement("a");
+      const url = URL.createObjectURL(blob);
+
+      link.setAttribute("href", url);
+      link.setAttribute("download", `inventory_${new Date().toISOString().split("T")[0]}.csv`);
+      link.style.visibility = "hidden";
+
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+
+      toast({
+        title: "Export successful",
+        description: `Exported ${data.length} parts to CSV`,
+      });
+    } catch (error: any) {
+      toast({
+        title: "Export failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Button onClick={exportToCSV} disabled={isExporting} variant="outline" className="flex items-center gap-2">
+      <Download className="h-4 w-4" />
+      {isExporting ? "Exporting..." : "Export Inventory"}
+    </Button>
+  );
+}
@@ -9,20 +9,29 @@ import { Scan } from "lucide-react";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
-import { ScanLine, Plus, ArrowUpCircle, ArrowDownCircle, Search, QrCode } from "lucide-react";
+import { ScanLine, Plus, ArrowUpCircle, ArrowDownCircle, QrCode } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { readFunctionError } from "@/lib/functions";
+import { parseMultiplierScan } from "@/lib/barcode";
+import OverdueItems from "./OverdueItems";
+import ReservationExport from "./ReservationExport";
+import ReservationFilterBar from "./ReservationFilterBar";
+import { EMPTY_RESERVATION_FILTERS, matchesReservationFilters, type ReservationFilters } from "@/lib/reservation-filters";
+import { getAllowedStatuses, STATUS_LABELS, type InventoryStatus } from "@/lib/inventory-status";
 
 interface InventoryRecord {
   id: string;
   part_id: number;
   team_user_id: string;
-  status: "reserved" | "issued" | "returned" | "lost" | "damaged";
+  team_id: string | null;
+  status: InventoryStatus;
   scanned_at: string;
   notes: string;
   admin_remarks: string | null;
   parts: {
     name: string;
+    category_id: number;
     categories: {
       name: string;
     };
@@ -30,6 +39,9 @@ interface InventoryRecord {
   profiles: {
     username: string;
   };
+  teams: {
+    name: string;
+  } | null;
 }
 
 interface Part {
@@ -46,25 +58,37 @@ interface Part {
 interface TeamUser {
   id: string;
   username: string;
+  teams: {
+    name: string;
+  } | null;
+}
+
+interface RestockResult {
+  matched: boolean;
+  reason?: "unknown_barcode" | "wrong_category";
+  part_name?: string;
+  added?: number;
+  quantity?: number;
 }
 
 interface InventoryTrackingProps {
+  eventId: string | null;
   onStatsUpdate: () => void;
 }
 
-export default function InventoryTracking({ onStatsUpdate }: InventoryTrackingProps) {
+export default function InventoryTracking({ eventId, onStatsUpdate }: InventoryTrackingProps) {
   const [records, setRecords] = useState<InventoryRecord[]>([]);
   const [categories, setCategories] = useState<{ id: number; name: string }[]>([]);
   const [parts, setParts] = useState<Part[]>([]);
   const [teamUsers, setTeamUsers] = useState<TeamUser[]>([]);
   const [selectedCategoryId, setSelectedCategoryId] = useState<number | null>(null);
   const [barcode, setBarcode] = useState("");
+  const [restockQuantity, setRestockQuantity] = useState("1");
   const [manualPartName, setManualPartName] = useState("");
   const [manualQuantity, setManualQuantity] = useState("1");
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
-  const [searchTerm, setSearchTerm] = useState("");
-  const [statusFilter, setStatusFilter] = useState<"all" | "reserved" | "issued" | "returned">("all");
+  const [filters, setFilters] = useState<ReservationFilters>(EMPTY_RESERVATION_FILTERS);
   const [editingRecord, setEditingRecord] = useState<string | null>(null);
   const [editStatus, setEditStatus] = useState<string>("");
   const [editRemarks, setEditRemarks] = useState<string>("");
@@ -76,6 +100,9 @@ export default function InventoryTracking({ onStatsUpdate }: InventoryTrackingPr
 
   useEffect(() => {
     loadRecords();
+  }, [eventId]);
+
+  useEffect(() => {
     loadCategories();
     loadAllParts();
     loadTeamUsers();
@@ -120,27 +147,33 @@ export default function InventoryTracking({ onStatsUpdate }: InventoryTrackingPr
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [selectedCategoryId]);
+  }, [selectedCategoryId, eventId]);
 
   const loadRecords = async () => {
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from("inventory_tracking")
         .select(`
           id,
           part_id,
           team_user_id,
+          team_id,
           status,
           scanned_at,
           notes,
           admin_remarks,
           parts (
             name,
+            category_id,
             categories (name)
           ),
-          profiles (username)
+          profiles (username),
+          teams (name)
         `)
         .order("scanned_at", { ascending: false });
+      if (eventId) query = query.eq("event_id", eventId);
+
+      const { data, error } = await query;
 
       if (error) throw error;
       setRecords(data as InventoryRecord[] || []);
@@ -206,7 +239,7 @@ export default function InventoryTracking({ onStatsUpdate }: InventoryTrackingPr
     try {
       const { data, error } = await supabase
         .from("profiles")
-        .select("id, username")
+        .select("id, username, teams (name)")
         .eq("role", "team")
         .order("username");
 
@@ -223,26 +256,28 @@ export default function InventoryTracking({ onStatsUpdate }: InventoryTrackingPr
 
     setIsLoading(true);
     try {
-      const { data: existingPart, error: searchError } = await supabase
-        .from("parts")
-        .select("*")
-        .eq("barcode", barcode.trim())
-        .eq("category_id", selectedCategoryId)
-        .maybeSingle();
-
-      if (searchError) throw searchError;
+      const { code, multiplier } = parseMultiplierScan(barcode);
+      const qty = multiplier ?? (parseInt(restockQuantity) || 1);
 
-      if (existingPart) {
-        const { error: updateError } = await supabase
-          .from("parts")
-          .update({ quantity: existingPart.quantity + 1 })
-          .eq("id", existingPart.id);
+      const { data, error } = await supabase.rpc("restock_part_by_barcode", {
+        p_barcode: code,
+        p_quantity: qty,
+        p_category_id: selectedCategoryId,
+      });
 
-        if (updateError) throw updateError;
+      if (error) throw error;
+      const result = data as unknown as RestockResult;
 
+      if (result.matched) {
         toast({
           title: "Part scanned",
-          description: `Added 1x ${existingPart.name}. New quantity: ${existingPart.quantity + 1}`,
+          description: `Added ${result.added}x ${result.part_name}. New quantity: ${result.quantity}`,
+        });
+      } else if (result.reason === "wrong_category") {
+        toast({
+          title: "Wrong category",
+          description: `${result.part_name} belongs to a different category.`,
+          variant: "destructive",
         });
       } else {
         toast({
@@ -253,6 +288,7 @@ export default function InventoryTracking({ onStatsUpdate }: InventoryTrackingPr
       }
 
       setBarcode("");
+      setRestockQuantity("1");
       if (selectedCategoryId) loadPartsInCategory(selectedCategoryId);
       onStatsUpdate();
     } catch (error: any) {
@@ -313,7 +349,7 @@ export default function InventoryTracking({ onStatsUpdate }: InventoryTrackingPr
     const formData = new FormData(e.currentTarget);
     const part_id = parseInt(formData.get("part_id") as string);
     const team_user_id = formData.get("team_user_id") as string;
-    const status = formData.get("status") as "issued" | "returned";
+    const status = formData.get("status") as "reserved" | "issued";
     const notes = formData.get("notes") as string;
 
     try {
@@ -347,16 +383,15 @@ export default function InventoryTracking({ onStatsUpdate }: InventoryTrackingPr
     }
   };
 
-  const filteredRecords = records.filter(record => {
-    const matchesSearch = searchTerm === "" || 
-      record.parts.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      record.profiles.username.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      record.parts.categories.name.toLowerCase().includes(searchTerm.toLowerCase());
-    
-    const matchesStatus = statusFilter === "all" || record.status === statusFilter;
-    
-    return matchesSearch && matchesStatus;
-  });
+  const filteredRecords = records.filter((record) => matchesReservationFilters(record, filters));
+  const recordTeams = Array.from(
+    new Map(
+      records.filter((record) => record.team_id && record.teams).map((record) => [
+        record.team_id,
+        { id: record.team_id, name: record.teams.name },
+      ])
+    ).values()
+  ).sort((a, b) => a.name.localeCompare(b.name));
 
   const handleUpdateRecord = async (recordId: string) => {
     try {
@@ -434,13 +469,14 @@ export default function InventoryTracking({ onStatsUpdate }: InventoryTrackingPr
       if (!session) throw new Error("Not authenticated");
 
       // Call checkout edge function for atomic reservation
-      const items = Array(qty).fill({ part_id: part.id, quantity: 1 });
-      
       const { error: checkoutError } = await supabase.functions.invoke('checkout-item', {
-        body: { items }
+        body: { items: [{ part_id: part.id, quantity: qty }] }
       });
 
-      if (checkoutError) throw checkoutError;
+      if (checkoutError) {
+        const body = await readFunctionError(checkoutError);
+        throw new Error(body?.error || checkoutError.message);
+      }
 
       toast({
         title: "Reservation successful",
@@ -467,7 +503,7 @@ export default function InventoryTracking({ onStatsUpdate }: InventoryTrackingPr
   const getStatusBadgeVariant = (status: string) => {
     if (status === "reserved") return "default";
     if (status === "issued") return "destructive";
-    if (status === "returned") return "secondary";
+    if (status === "returned" || status === "cancelled" || status === "expired") return "secondary";
     return "destructive";
   };
 
@@ -522,7 +558,16 @@ export default function InventoryTracking({ onStatsUpdate }: InventoryTrackingPr
                 <CardContent>
                   <form onSubmit={handleBarcodeInput} className="flex gap-2">
                     <Input
-                      placeholder="Scan or enter barcode..."
+                      type="number"
+                      min="1"
+                      aria-label="Quantity"
+                      value={restockQuantity}
+                      onChange={(e) => setRestockQuantity(e.target.value)}
+                      disabled={isLoading}
+                      className="w-20"
+                    />
+                    <Input
+                      placeholder="Scan or enter barcode (e.g. 10*CODE)..."
                       value={barcode}
                       onChange={(e) => setBarcode(e.target.value)}
                       disabled={isLoading}
@@ -682,6 +727,8 @@ export default function InventoryTracking({ onStatsUpdate }: InventoryTrackingPr
         </CardContent>
       </Card>
 
+      <OverdueItems eventId={eventId} />
+
       {/* Activity Log */}
       <Card>
         <CardHeader>
@@ -690,113 +737,95 @@ export default function InventoryTracking({ onStatsUpdate }: InventoryTrackingPr
               <CardTitle>Activity Log</CardTitle>
               <CardDescription>Track component issues and returns</CardDescription>
             </div>
-            <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
-              <DialogTrigger asChild>
-                <Button variant="outline">
-                  <Plus className="h-4 w-4 mr-2" />
-                  Record Transaction
-                </Button>
-              </DialogTrigger>
-              <DialogContent>
-                <DialogHeader>
-                  <DialogTitle>Manual Transaction Entry</DialogTitle>
-                  <DialogDescription>Record component issue or return</DialogDescription>
-                </DialogHeader>
-                <form onSubmit={handleManualEntry}>
-                  <div className="space-y-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="part_id">Component</Label>
-                      <Select name="part_id" required>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select component" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          {parts.filter(p => p.categories).map((part) => (
-                            <SelectItem key={part.id} value={part.id.toString()}>
-                              {part.categories?.name} - {part.name}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="team_user_id">Team Member</Label>
-                      <Select name="team_user_id" required>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select team member" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          {teamUsers.map((user) => (
-                            <SelectItem key={user.id} value={user.id}>
-                              {user.username}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="status">Action</Label>
-                      <Select name="status" required>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select action" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="reserved">Reserve Component</SelectItem>
-                          <SelectItem value="issued">Issue Component</SelectItem>
-                          <SelectItem value="returned">Return Component</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="notes">Notes (optional)</Label>
-                      <Textarea id="notes" name="notes" placeholder="Additional notes" />
+            <div className="flex gap-2">
+              <ReservationExport eventId={eventId} filters={filters} />
+              <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
+                <DialogTrigger asChild>
+                  <Button variant="outline">
+                    <Plus className="h-4 w-4 mr-2" />
+                    Record Transaction
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>Manual Transaction Entry</DialogTitle>
+                    <DialogDescription>Record a component reservation or issue. Returns are recorded by editing the existing record.</DialogDescription>
+                  </DialogHeader>
+                  <form onSubmit={handleManualEntry}>
+                    <div className="space-y-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="part_id">Component</Label>
+                        <Select name="part_id" required>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select component" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {parts.filter(p => p.categories).map((part) => (
+                              <SelectItem key={part.id} value={part.id.toString()}>
+                                {part.categories?.name} - {part.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="team_user_id">Team Member</Label>
+                        <Select name="team_user_id" required>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select team member" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {teamUsers.map((user) => (
+                              <SelectItem key={user.id} value={user.id}>
+                                {user.username}
+                                {user.teams && <span className="text-muted-foreground"> ({user.teams.name})</span>}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="status">Action</Label>
+                        <Select name="status" required>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select action" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="reserved">Reserve Component</SelectItem>
+                            <SelectItem value="issued">Issue Component</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="notes">Notes (optional)</Label>
+                        <Textarea id="notes" name="notes" placeholder="Additional notes" />
+                      </div>
                     </div>
-                  </div>
-                  <DialogFooter className="mt-6">
-                    <Button type="button" variant="outline" onClick={() => setIsAddDialogOpen(false)}>
-                      Cancel
-                    </Button>
-                    <Button type="submit" disabled={isLoading}>
-                      {isLoading ? "Recording..." : "Record Entry"}
-                    </Button>
-                  </DialogFooter>
-                </form>
-              </DialogContent>
-            </Dialog>
+                    <DialogFooter className="mt-6">
+                      <Button type="button" variant="outline" onClick={() => setIsAddDialogOpen(false)}>
+                        Cancel
+                      </Button>
+                      <Button type="submit" disabled={isLoading}>
+                        {isLoading ? "Recording..." : "Record Entry"}
+                      </Button>
+                    </DialogFooter>
+                  </form>
+                </DialogContent>
+              </Dialog>
+            </div>
           </div>
         </CardHeader>
         <CardContent>
-          <div className="flex gap-4 mb-6">
-            <div className="flex-1">
-              <div className="relative">
-                <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                <Input
-                  placeholder="Search by component, team, or category..."
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                  className="pl-10"
-                />
-              </div>
-            </div>
-            <Select value={statusFilter} onValueChange={(value: any) => setStatusFilter(value)}>
-              <SelectTrigger className="w-48">
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All Status</SelectItem>
-                <SelectItem value="reserved">Reserved</SelectItem>
-                <SelectItem value="issued">Issued</SelectItem>
-                <SelectItem value="returned">Returned</SelectItem>
-                <SelectItem value="lost">Lost</SelectItem>
-                <SelectItem value="damaged">Damaged</SelectItem>
-              </SelectContent>
-            </Select>
+          <div className="mb-6">
+            <ReservationFilterBar filters={filters} onChange={setFilters} teams={recordTeams} categories={categories} />
           </div>
 
           {filteredRecords.length === 0 ? (
             <div className="text-center py-8">
               <ScanLine className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
-              <p className="text-muted-foreground">No inventory records yet.</p>
+              <p className="text-muted-foreground">
+                {records.length > 0 ? "No records match the current filters." : "No inventory records yet."}
+              </p>
             </div>
           ) : (
             <Table>
@@ -804,7 +833,7 @@ export default function InventoryTracking({ onStatsUpdate }: InventoryTrackingPr
                 <TableRow>
                   <TableHead>Component</TableHead>
                   <TableHead>Category</TableHead>
-                  <TableHead>Team Member</TableHead>
+                  <TableHead>Team</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead>Date/Time</TableHead>
                   <TableHead>Notes</TableHead>
@@ -817,7 +846,10 @@ export default function InventoryTracking({ onStatsUpdate }: InventoryTrackingPr
                   <TableRow key={record.id}>
                     <TableCell className="font-medium">{record.parts.name}</TableCell>
                     <TableCell>{record.parts.categories.name}</TableCell>
-                    <TableCell>{record.profiles.username}</TableCell>
+                    <TableCell>
+                      {record.teams?.name || "No Team"}
+                      <div className="text-xs text-muted-foreground">{record.profiles.username}</div>
+                    </TableCell>
                     <TableCell>
                       {editingRecord === record.id ? (
                         <Select value={editStatus} onValueChange={setEditStatus}>
@@ -825,11 +857,11 @@ export default function InventoryTracking({ onStatsUpdate }: InventoryTrackingPr
                             <SelectValue />
                           </SelectTrigger>
                           <SelectContent>
-                            <SelectItem value="reserved">Reserved</SelectItem>
-                            <SelectItem value="issued">Issued</SelectItem>
-                            <SelectItem value="returned">Returned</SelectItem>
-                            <SelectItem value="lost">Lost</SelectItem>
-                            <SelectItem value="damaged">Damaged</SelectItem>
+                            {getAllowedStatuses(record.status).map((status) => (
+                              <SelectItem key={status} value={status}>
+                                {STATUS_LABELS[status]}
+                              </SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
                       ) : (
@@ -0,0 +1,210 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { AlarmClock } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+interface OverdueRecord {
+  id: string;
+  team_id: string | null;
+  scanned_at: string;
+  due_at: string;
+  parts: {
+    name: string;
+    category_id: number;
+    categories: {
+      name: string;
+    };
+  } | null;
+  teams: {
+    name: string;
+  } | null;
+  profiles: {
+    username: string;
+  } | null;
+}
+
+interface OverdueItemsProps {
+  eventId: string | null;
+}
+
+export default function OverdueItems({ eventId }: OverdueItemsProps) {
+  const [records, setRecords] = useState<OverdueRecord[]>([]);
+  const [teamFilter, setTeamFilter] = useState("all");
+  const [categoryFilter, setCategoryFilter] = useState("all");
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadOverdue();
+
+    const channel = supabase
+      .channel('overdue-updates')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'inventory_tracking'
+        },
+        () => {
+          loadOverdue();
+        }
+      )
+      .subscribe();
+
+    // Items tip over their due date without any row changing
+    const interval = setInterval(loadOverdue, 60_000);
+
+    return () => {
+      clearInterval(interval);
+      supabase.removeChannel(channel);
+    };
+  }, [eventId]);
+
+  const loadOverdue = async () => {
+    try {
+      let query = supabase
+        .from("inventory_tracking")
+        .select(`
+          id,
+          team_id,
+          scanned_at,
+          due_at,
+          parts (
+            name,
+            category_id,
+            categories (name)
+          ),
+          teams (name),
+          profiles (username)
+        `)
+        .eq("status", "issued")
+        .lt("due_at", new Date().toISOString())
+        .order("due_at");
+      if (eventId) query = query.eq("event_id", eventId);
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      setRecords(data as OverdueRecord[] || []);
+    } catch (error: any) {
+      toast({
+        title: "Error loading overdue items",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const teams = Array.from(
+    new Map(
+      records
+        .filter((record) => record.team_id && record.teams)
+        .map((record) => [record.team_id!, record.teams!.name])
+    )
+  ).sort((a, b) => a[1].localeCompare(b[1]));
+
+  const categories = Array.from(
+    new Map(
+      records
+        .filter((record) => record.parts)
+        .map((record) => [record.parts!.category_id.toString(), record.parts!.categories.name])
+    )
+  ).sort((a, b) => a[1].localeCompare(b[1]));
+
+  const filteredRecords = records.filter((record) => {
+    const matchesTeam = teamFilter === "all" || record.team_id === teamFilter;
+    const matchesCategory = categoryFilter === "all" || record.parts?.category_id.toString() === categoryFilter;
+    return matchesTeam && matchesCategory;
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <AlarmClock className="h-5 w-5" />
+              Overdue Items
+            </CardTitle>
+            <CardDescription>Issued components past their due date</CardDescription>
+          </div>
+          <Badge variant={records.length > 0 ? "destructive" : "secondary"}>
+            {records.length} overdue
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="flex gap-4 mb-6">
+          <Select value={teamFilter} onValueChange={setTeamFilter}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Teams</SelectItem>
+              {teams.map(([id, name]) => (
+                <SelectItem key={id} value={id}>
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Categories</SelectItem>
+              {categories.map(([id, name]) => (
+                <SelectItem key={id} value={id}>
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {filteredRecords.length === 0 ? (
+          <div className="text-center py-8">
+            <AlarmClock className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">Nothing is overdue.</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Component</TableHead>
+                <TableHead>Category</TableHead>
+                <TableHead>Team</TableHead>
+                <TableHead>Due</TableHead>
+                <TableHead>Overdue</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredRecords.map((record) => (
+                <TableRow key={record.id}>
+                  <TableCell className="font-medium">{record.parts?.name || "Deleted Part"}</TableCell>
+                  <TableCell>{record.parts?.categories.name || "N/A"}</TableCell>
+                  <TableCell>
+                    {record.teams?.name || "No Team"}
+                    <div className="text-xs text-muted-foreground">{record.profiles?.username || "Deleted User"}</div>
+                  </TableCell>
+                  <TableCell>{new Date(record.due_at).toLocaleString()}</TableCell>
+                  <TableCell>
+                    <Badge variant="destructive">
+                      {formatDistanceToNow(new Date(record.due_at))}
+                    </Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
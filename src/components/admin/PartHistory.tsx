@@ -0,0 +1,141 @@
+import { useState, useEffect } from "react";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { History } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+interface StockMovement {
+  id: string;
+  delta: number;
+  reason: string;
+  balance_after: number | null;
+  stocktake_id: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+const REASON_LABELS: Record<string, string> = {
+  initial: "Opening balance",
+  restock: "Restock",
+  reservation: "Reservation",
+  return: "Return",
+  cancellation: "Cancellation",
+  expiry: "Expired reservation",
+  write_off: "Write-off",
+  manual_correction: "Manual correction",
+  restore: "Restored from backup",
+};
+
+interface PartHistoryProps {
+  part: { id: number; name: string; quantity: number } | null;
+  onClose: () => void;
+}
+
+export default function PartHistory({ part, onClose }: PartHistoryProps) {
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [usernames, setUsernames] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (part) {
+      loadMovements(part.id);
+    } else {
+      setMovements([]);
+    }
+  }, [part?.id]);
+
+  const loadMovements = async (partId: number) => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("stock_movements")
+        .select("id, delta, reason, balance_after, stocktake_id, created_by, created_at")
+        .eq("part_id", partId)
+        .order("created_at", { ascending: false })
+        .limit(200);
+
+      if (error) throw error;
+      setMovements(data || []);
+
+      // created_by holds the auth user id, so resolve names through profiles
+      const actorIds = Array.from(new Set((data || []).map((m) => m.created_by).filter(Boolean)));
+      if (actorIds.length > 0) {
+        const { data: profiles, error: profilesError } = await supabase
+          .from("profiles")
+          .select("user_id, username")
+          .in("user_id", actorIds);
+
+        if (profilesError) throw profilesError;
+        setUsernames(Object.fromEntries((profiles || []).map((p) => [p.user_id, p.username])));
+      }
+    } catch (error: any) {
+      toast({
+        title: "Error loading stock history",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Sheet open={!!part} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Stock History
+          </SheetTitle>
+          <SheetDescription>
+            {part?.name} · {part?.quantity} currently in stock
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6">
+          {isLoading ? (
+            <p className="text-center py-8 text-muted-foreground">Loading...</p>
+          ) : movements.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">No stock movements recorded for this part.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead className="text-right">Change</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                  <TableHead>By</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {movements.map((movement) => (
+                  <TableRow key={movement.id}>
+                    <TableCell className="text-xs">{new Date(movement.created_at).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">
+                        {movement.stocktake_id ? "Stocktake correction" : REASON_LABELS[movement.reason] || movement.reason}
+                      </Badge>
+                    </TableCell>
+                    <TableCell
+                      className={`text-right font-mono ${movement.delta > 0 ? "text-primary" : movement.delta < 0 ? "text-destructive" : ""}`}
+                    >
+                      {movement.delta > 0 ? `+${movement.delta}` : movement.delta}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{movement.balance_after ?? "—"}</TableCell>
+                    <TableCell className="text-xs">
+                      {movement.created_by ? usernames[movement.created_by] || "Unknown" : "System"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,299 @@
+import { useState, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Upload, Search, PackagePlus } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { readImportFile } from "@/lib/xlsx";
+import { z } from "zod";
+import { csvOptional, csvWholeNumber, formatCsvIssue, readCsv } from "@/lib/csv";
+
+const COLUMNS = ["category", "name", "description", "quantity", "barcode", "image_url"] as const;
+
+const partSchema = z.object({
+  category: z.string().trim().min(1, "Category is required"),
+  name: z.string().trim().min(1, "Part name is required"),
+  description: csvOptional(z.string()),
+  quantity: csvOptional(csvWholeNumber),
+  barcode: csvOptional(z.string()),
+  image_url: csvOptional(z.string().regex(/^https?:\/\/\S+$/i, "Must be an http:// or https:// URL")),
+});
+
+type ImportAction = "create" | "update" | "unchanged" | "conflict" | "error";
+
+interface ImportResult {
+  line: number;
+  action: ImportAction;
+  part_id: number | null;
+  message: string | null;
+}
+
+interface PartsImportProps {
+  onImportComplete: () => void;
+}
+
+const ACTION_LABELS: Record<ImportAction, string> = {
+  create: "Create",
+  update: "Update",
+  unchanged: "Unchanged",
+  conflict: "Conflict",
+  error: "Error",
+};
+
+const ACTION_VARIANTS: Record<ImportAction, "default" | "secondary" | "outline" | "destructive"> = {
+  create: "default",
+  update: "secondary",
+  unchanged: "outline",
+  conflict: "destructive",
+  error: "destructive",
+};
+
+export default function PartsImport({ onImportComplete }: PartsImportProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [partsText, setPartsText] = useState("");
+  // Results of the last run, and whether it only previewed
+  const [results, setResults] = useState<ImportResult[] | null>(null);
+  const [isApplied, setIsApplied] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  // Columns are matched by header name so exported inventory files can be re-imported as-is
+  const table = readCsv(partsText, partSchema, {
+    columns: COLUMNS,
+    header: "required",
+    requiredColumns: ["category", "name"],
+  });
+  const rows = table.rows;
+  const validRows = rows.filter((row) => row.data);
+  const resultsByLine = new Map((results || []).map((result) => [result.line, result]));
+
+  const counts = (results || []).reduce(
+    (totals, result) => ({ ...totals, [result.action]: totals[result.action] + 1 }),
+    { create: 0, update: 0, unchanged: 0, conflict: 0, error: 0 } as Record<ImportAction, number>,
+  );
+  const changeCount = counts.create + counts.update;
+
+  const handleTextChange = (text: string) => {
+    setPartsText(text);
+    setResults(null);
+    setIsApplied(false);
+  };
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      handleTextChange(await readImportFile(file, "Parts"));
+    } catch (error: any) {
+      toast({
+        title: "Error reading file",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
+    }
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    setIsRunning(true);
+    try {
+      const { data, error } = await supabase.rpc("import_parts", {
+        p_rows: validRows.map((row) => ({ line: row.line, ...row.data })),
+        p_dry_run: dryRun,
+      });
+
+      if (error) throw error;
+
+      const rowResults = (data as unknown as { rows: ImportResult[] }).rows;
+      setResults(rowResults);
+      setIsApplied(!dryRun);
+
+      if (!dryRun) {
+        const created = rowResults.filter((result) => result.action === "create").length;
+        const updated = rowResults.filter((result) => result.action === "update").length;
+        const skipped = rowResults.filter((result) => result.action === "conflict" || result.action === "error").length;
+
+        toast({
+          title: "Parts imported",
+          description: `${created} created, ${updated} updated, ${skipped + (rows.length - validRows.length)} skipped`,
+        });
+        onImportComplete();
+      }
+    } catch (error: any) {
+      toast({
+        title: dryRun ? "Error previewing import" : "Error importing parts",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const downloadTemplate = () => {
+    const template = `category,name,description,quantity,barcode,image_url
+Sensors,HC-SR04 Ultrasonic Sensor,Distance sensor 2-400 cm,25,SENS-0001,
+Motors,SG90 Micro Servo,9 g servo motor,40,MOT-0001,
+Microcontrollers,Arduino Uno R3,ATmega328P board,12,,https://example.com/uno.jpg`;
+    const blob = new Blob([template], { type: "text/csv;charset=utf-8;" });
+    const link = document.createElement("a");
+    const url = URL.createObjectURL(blob);
+
+    link.setAttribute("href", url);
+    link.setAttribute("download", "parts_template.csv");
+    link.style.visibility = "hidden";
+
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const handleClose = () => {
+    setIsOpen(false);
+    handleTextChange("");
+  };
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => setIsOpen(true)}>
+        <PackagePlus className="h-4 w-4 mr-2" />
+        Import Parts
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Import Parts</DialogTitle>
+            <DialogDescription>
+              CSV or XLSX (the Parts sheet, else the first) with a header row: category, name, description, quantity,
+              barcode, image_url. Parts are matched by barcode, or by name within the category when there is none.
+              Quantity replaces the current stock; blank fields keep the existing value.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="flex gap-2">
+              <Input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.txt,.xlsx"
+                onChange={handleFileSelect}
+                className="hidden"
+                id="parts-upload"
+              />
+              <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+                <Upload className="h-4 w-4 mr-2" />
+                Load CSV / XLSX File
+              </Button>
+              <Button variant="outline" size="sm" onClick={downloadTemplate}>
+                Download Template
+              </Button>
+            </div>
+            <Textarea
+              value={partsText}
+              onChange={(e) => handleTextChange(e.target.value)}
+              placeholder={"category,name,description,quantity,barcode,image_url\nSensors,HC-SR04 Ultrasonic Sensor,,25,SENS-0001,"}
+              rows={6}
+              className="font-mono text-sm"
+            />
+
+            {table.issues.map((issue) => (
+              <p key={issue.line} className="text-sm text-destructive">
+                {formatCsvIssue(issue)}
+              </p>
+            ))}
+
+            {results && (
+              <div className="flex flex-wrap gap-2 text-sm">
+                <span className="text-muted-foreground">{isApplied ? "Imported:" : "Preview:"}</span>
+                <Badge>{counts.create} to create</Badge>
+                <Badge variant="secondary">{counts.update} to update</Badge>
+                <Badge variant="outline">{counts.unchanged} unchanged</Badge>
+                {counts.conflict > 0 && <Badge variant="destructive">{counts.conflict} conflicts</Badge>}
+                {counts.error + (rows.length - validRows.length) > 0 && (
+                  <Badge variant="destructive">{counts.error + (rows.length - validRows.length)} errors</Badge>
+                )}
+              </div>
+            )}
+
+            {rows.length > 0 && (
+              <div className="max-h-72 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Line</TableHead>
+                      <TableHead>Category</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Qty</TableHead>
+                      <TableHead>Barcode</TableHead>
+                      <TableHead>Result</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.map((row) => {
+                      const result = resultsByLine.get(row.line);
+                      const message =
+                        row.issues.map((issue) => formatCsvIssue(issue, { withLine: false })).join("; ") ||
+                        result?.message;
+
+                      return (
+                        <TableRow key={row.line}>
+                          <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                          <TableCell>{row.values.category || "—"}</TableCell>
+                          <TableCell className="font-medium">{row.values.name || "—"}</TableCell>
+                          <TableCell>{row.values.quantity || "—"}</TableCell>
+                          <TableCell className="font-mono text-xs">{row.values.barcode || "—"}</TableCell>
+                          <TableCell>
+                            <div className="flex flex-col gap-1">
+                              {!row.data ? (
+                                <Badge variant="destructive" className="w-fit">Error</Badge>
+                              ) : result ? (
+                                <Badge variant={ACTION_VARIANTS[result.action]} className="w-fit">
+                                  {ACTION_LABELS[result.action]}
+                                </Badge>
+                              ) : (
+                                <span className="text-xs text-muted-foreground">Not checked</span>
+                              )}
+                              {message && <span className="text-xs text-destructive">{message}</span>}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={handleClose}>
+              {isApplied ? "Close" : "Cancel"}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => runImport(true)}
+              disabled={isRunning || isApplied || validRows.length === 0}
+            >
+              <Search className="h-4 w-4 mr-2" />
+              Preview
+            </Button>
+            <Button onClick={() => runImport(false)} disabled={isRunning || isApplied || !results || changeCount === 0}>
+              <PackagePlus className="h-4 w-4 mr-2" />
+              {isRunning ? "Working..." : `Apply ${changeCount} Change${changeCount === 1 ? "" : "s"}`}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
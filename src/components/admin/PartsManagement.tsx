@@ -6,9 +6,10 @@ import { Textarea } from "@/components/ui/textarea";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
-import { Plus, Edit, Trash2, Package } from "lucide-react";
+import { Plus, Edit, Trash2, Package, History } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import PartHistory from "./PartHistory";
 
 interface Part {
   id: number;
@@ -29,6 +30,7 @@ export default function PartsManagement({ categoryId, onStatsUpdate }: PartsMana
   const [selectedPart, setSelectedPart] = useState<Part | null>(null);
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  const [historyPart, setHistoryPart] = useState<Part | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
 
@@ -256,6 +258,14 @@ export default function PartsManagement({ categoryId, onStatsUpdate }: PartsMana
                   </TableCell>
                   <TableCell className="text-right">
                     <div className="flex gap-2 justify-end">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setHistoryPart(part)}
+                        title="Stock history"
+                      >
+                        <History className="h-4 w-4" />
+                      </Button>
                       <Button
                         size="sm"
                         variant="outline"
@@ -282,6 +292,8 @@ export default function PartsManagement({ categoryId, onStatsUpdate }: PartsMana
         </Table>
       )}
 
+      <PartHistory part={historyPart} onClose={() => setHistoryPart(null)} />
+
       {/* Edit Part Dialog */}
       <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
         <DialogContent>
@@ -0,0 +1,340 @@
+import { useState, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { PackageCheck, ScanLine, AlertTriangle, CheckCircle2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+interface Team {
+  id: string;
+  name: string;
+}
+
+interface TeamMember {
+  username: string;
+  team_id: string | null;
+}
+
+interface ReservedRecord {
+  id: string;
+  part_id: number;
+  scanned_at: string;
+  parts: {
+    name: string;
+    barcode: string | null;
+  } | null;
+}
+
+interface IssueResult {
+  matched: boolean;
+  reason?: "unknown_barcode" | "not_reserved";
+  barcode: string;
+  part_id?: number;
+  part_name?: string;
+  remaining?: number;
+}
+
+interface ScanLogEntry {
+  id: number;
+  ok: boolean;
+  message: string;
+  at: Date;
+}
+
+interface PickupStationProps {
+  onStatsUpdate: () => void;
+}
+
+export default function PickupStation({ onStatsUpdate }: PickupStationProps) {
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [selectedTeamId, setSelectedTeamId] = useState("");
+  const [teamScan, setTeamScan] = useState("");
+  const [reserved, setReserved] = useState<ReservedRecord[]>([]);
+  const [partBarcode, setPartBarcode] = useState("");
+  const [scanLog, setScanLog] = useState<ScanLogEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const partInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadTeams();
+  }, []);
+
+  useEffect(() => {
+    setScanLog([]);
+    if (selectedTeamId) {
+      loadReserved(selectedTeamId);
+      partInputRef.current?.focus();
+    } else {
+      setReserved([]);
+    }
+  }, [selectedTeamId]);
+
+  const loadTeams = async () => {
+    try {
+      const [teamsResult, membersResult] = await Promise.all([
+        supabase.from("teams").select("id, name").order("name"),
+        supabase.from("profiles").select("username, team_id").not("team_id", "is", null),
+      ]);
+
+      if (teamsResult.error) throw teamsResult.error;
+      if (membersResult.error) throw membersResult.error;
+      setTeams(teamsResult.data || []);
+      setMembers(membersResult.data || []);
+    } catch (error: any) {
+      console.error("Error loading teams:", error);
+    }
+  };
+
+  const loadReserved = async (teamId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from("inventory_tracking")
+        .select(`
+          id,
+          part_id,
+          scanned_at,
+          parts (name, barcode)
+        `)
+        .eq("team_id", teamId)
+        .eq("status", "reserved")
+        .order("scanned_at");
+
+      if (error) throw error;
+      setReserved(data || []);
+    } catch (error: any) {
+      toast({
+        title: "Error loading reservations",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const addLogEntry = (ok: boolean, message: string) => {
+    setScanLog(prev => [{ id: prev.length + 1, ok, message, at: new Date() }, ...prev]);
+  };
+
+  const handleTeamScan = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = teamScan.trim().toLowerCase();
+    if (!value) return;
+
+    // Accept either the team's name or the badge of any of its members
+    const teamId =
+      teams.find((team) => team.name.toLowerCase() === value)?.id ||
+      members.find((member) => member.username.toLowerCase() === value)?.team_id;
+    if (!teamId) {
+      toast({
+        title: "Team not found",
+        description: `No team or team member named "${teamScan.trim()}"`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSelectedTeamId(teamId);
+    setTeamScan("");
+  };
+
+  const handlePartScan = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = partBarcode.trim();
+    if (!code || !selectedTeamId) return;
+
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase.rpc("issue_reserved_by_barcode", {
+        p_team_id: selectedTeamId,
+        p_barcode: code,
+      });
+
+      if (error) throw error;
+      const result = data as unknown as IssueResult;
+
+      if (result.matched) {
+        addLogEntry(true, `Issued 1x ${result.part_name}${result.remaining ? ` (${result.remaining} still reserved)` : ""}`);
+        loadReserved(selectedTeamId);
+        onStatsUpdate();
+      } else if (result.reason === "unknown_barcode") {
+        addLogEntry(false, `Barcode ${code} does not match any part`);
+      } else {
+        addLogEntry(false, `${result.part_name} is not reserved by this team`);
+      }
+    } catch (error: any) {
+      toast({
+        title: "Error issuing part",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setPartBarcode("");
+      setIsLoading(false);
+      partInputRef.current?.focus();
+    }
+  };
+
+  // Parts without a barcode can still be handed over by hand
+  const handleIssueRecord = async (record: ReservedRecord) => {
+    try {
+      const { error } = await supabase.rpc("issue_reserved_record", {
+        p_tracking_id: record.id,
+      });
+
+      if (error) throw error;
+
+      addLogEntry(true, `Issued 1x ${record.parts?.name || "Deleted Part"}`);
+      loadReserved(selectedTeamId);
+      onStatsUpdate();
+    } catch (error: any) {
+      toast({
+        title: "Error issuing part",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const groupedReserved = Array.from(
+    reserved.reduce((groups, record) => {
+      const group = groups.get(record.part_id) || { part: record.parts, records: [] as ReservedRecord[] };
+      group.records.push(record);
+      return groups.set(record.part_id, group);
+    }, new Map<number, { part: ReservedRecord["parts"]; records: ReservedRecord[] }>())
+  );
+
+  const selectedTeam = teams.find((team) => team.id === selectedTeamId);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <PackageCheck className="h-5 w-5" />
+            Pickup Station
+          </CardTitle>
+          <CardDescription>Hand over reserved parts by scanning them for the collecting team</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Select Team</Label>
+              <Select value={selectedTeamId} onValueChange={setSelectedTeamId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a team" />
+                </SelectTrigger>
+                <SelectContent>
+                  {teams.map((team) => (
+                    <SelectItem key={team.id} value={team.id}>
+                      {team.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <form onSubmit={handleTeamScan} className="space-y-2">
+              <Label htmlFor="teamScan">Or Scan Team Badge</Label>
+              <Input
+                id="teamScan"
+                placeholder="Scan or type team or member name..."
+                value={teamScan}
+                onChange={(e) => setTeamScan(e.target.value)}
+              />
+            </form>
+          </div>
+
+          {selectedTeamId && (
+            <>
+              <Card className="bg-muted/50">
+                <CardHeader>
+                  <CardTitle className="text-base flex items-center gap-2">
+                    <ScanLine className="h-5 w-5" />
+                    Scan Parts for {selectedTeam?.name}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <form onSubmit={handlePartScan} className="flex gap-2">
+                    <Input
+                      ref={partInputRef}
+                      placeholder="Scan part barcode..."
+                      value={partBarcode}
+                      onChange={(e) => setPartBarcode(e.target.value)}
+                      disabled={isLoading}
+                    />
+                    <Button type="submit" disabled={isLoading || !partBarcode.trim()}>
+                      {isLoading ? "Issuing..." : "Issue"}
+                    </Button>
+                  </form>
+                </CardContent>
+              </Card>
+
+              {scanLog.length > 0 && (
+                <div className="space-y-2">
+                  {scanLog.map((entry) => (
+                    <div
+                      key={entry.id}
+                      className={`flex items-center gap-2 rounded-md border p-2 text-sm ${entry.ok ? "" : "border-destructive text-destructive"}`}
+                    >
+                      {entry.ok ? (
+                        <CheckCircle2 className="h-4 w-4 text-primary" />
+                      ) : (
+                        <AlertTriangle className="h-4 w-4" />
+                      )}
+                      <span className="flex-1">{entry.message}</span>
+                      <span className="text-xs text-muted-foreground">{entry.at.toLocaleTimeString()}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <h3 className="font-semibold">Outstanding Reservations</h3>
+                {groupedReserved.length === 0 ? (
+                  <div className="text-center py-8 border rounded-lg bg-muted/30">
+                    <PackageCheck className="h-12 w-12 mx-auto text-muted-foreground mb-2" />
+                    <p className="text-muted-foreground">Nothing left to hand over to this team</p>
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Part Name</TableHead>
+                        <TableHead>Barcode</TableHead>
+                        <TableHead className="text-right">Reserved</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {groupedReserved.map(([partId, group]) => (
+                        <TableRow key={partId}>
+                          <TableCell className="font-medium">{group.part?.name || "Deleted Part"}</TableCell>
+                          <TableCell>
+                            <code className="text-xs">{group.part?.barcode || "—"}</code>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Badge variant="default">{group.records.length}</Badge>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button size="sm" variant="outline" onClick={() => handleIssueRecord(group.records[0])}>
+                              Issue 1
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
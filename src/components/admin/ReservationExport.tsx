@@ -1,95 +1,245 @@
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Download } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { toCsv } from "@/lib/csv";
+import { STATUS_LABELS, type InventoryStatus } from "@/lib/inventory-status";
+import { fetchAllRows } from "@/lib/paging";
+import {
+  isFiltered,
+  matchesReservationFilters,
+  reservationDateRange,
+  type FilterableReservation,
+  type ReservationFilters,
+} from "@/lib/reservation-filters";
+import { downloadWorkbook, type SheetCell } from "@/lib/xlsx";
 
-export default function ReservationExport() {
+type ExportMode = "units" | "counts";
+type ExportFormat = "csv" | "xlsx";
+
+interface ExportRecord extends FilterableReservation {
+  id: string;
+  part_id: number | null;
+  notes: string | null;
+  admin_remarks: string | null;
+  due_at: string | null;
+  events: { name: string } | null;
+}
+
+interface CountRow {
+  team: string;
+  part: string;
+  category: string;
+  total: number;
+  statuses: Record<InventoryStatus, number>;
+}
+
+interface ExportColumn<T> {
+  key: string;
+  header: string;
+  value: (row: T) => SheetCell;
+  // Date cells: Excel number format, and the date-fns pattern used in CSV
+  numFmt?: string;
+  csvFormat?: string;
+}
+
+interface ReservationExportProps {
+  eventId: string | null;
+  // Filters applied to the list this export sits next to
+  filters: ReservationFilters;
+}
+
+const STATUSES = Object.keys(STATUS_LABELS) as InventoryStatus[];
+
+const UNIT_COLUMNS: ExportColumn<ExportRecord>[] = [
+  { key: "id", header: "Reservation ID", value: (r) => r.id },
+  { key: "event", header: "Event", value: (r) => r.events?.name || "No Event" },
+  { key: "team", header: "Team", value: (r) => r.teams?.name || "No Team" },
+  { key: "placed_by", header: "Placed By", value: (r) => r.profiles?.username || "Deleted User" },
+  { key: "part", header: "Part Name", value: (r) => r.parts?.name || "Deleted Part" },
+  { key: "category", header: "Category", value: (r) => r.parts?.categories?.name || "N/A" },
+  { key: "status", header: "Status", value: (r) => r.status },
+  // Fixed formats so spreadsheets parse them the same in every locale
+  { key: "date", header: "Date", value: (r) => new Date(r.scanned_at), numFmt: "yyyy-mm-dd", csvFormat: "yyyy-MM-dd" },
+  { key: "time", header: "Time", value: (r) => new Date(r.scanned_at), numFmt: "hh:mm:ss", csvFormat: "HH:mm:ss" },
+  {
+    key: "due_at",
+    header: "Due Back",
+    value: (r) => (r.due_at ? new Date(r.due_at) : null),
+    numFmt: "yyyy-mm-dd hh:mm",
+    csvFormat: "yyyy-MM-dd HH:mm",
+  },
+  { key: "notes", header: "Notes", value: (r) => r.notes || "" },
+  { key: "admin_remarks", header: "Admin Remarks", value: (r) => r.admin_remarks || "" },
+];
+
+const COUNT_COLUMNS: ExportColumn<CountRow>[] = [
+  { key: "team", header: "Team", value: (r) => r.team },
+  { key: "part", header: "Part Name", value: (r) => r.part },
+  { key: "category", header: "Category", value: (r) => r.category },
+  { key: "total", header: "Total", value: (r) => r.total },
+  ...STATUSES.map((status) => ({
+    key: status,
+    header: STATUS_LABELS[status],
+    value: (r: CountRow) => r.statuses[status],
+  })),
+];
+
+const DEFAULT_COLUMNS: Record<ExportMode, string[]> = {
+  // Due Back wasn't in earlier exports, so it starts unticked
+  units: UNIT_COLUMNS.map((column) => column.key).filter((key) => key !== "due_at"),
+  counts: COUNT_COLUMNS.map((column) => column.key),
+};
+
+// One row per team and part, with how many units are in each status
+function countByTeamAndPart(records: ExportRecord[]): CountRow[] {
+  const rows = new Map<string, CountRow>();
+
+  records.forEach((record) => {
+    // By id, as parts in different categories may share a name
+    const key = `${record.team_id}|${record.part_id}`;
+    const row = rows.get(key) || {
+      team: record.teams?.name || "No Team",
+      part: record.parts?.name || "Deleted Part",
+      category: record.parts?.categories?.name || "N/A",
+      total: 0,
+      statuses: Object.fromEntries(STATUSES.map((status) => [status, 0])) as Record<InventoryStatus, number>,
+    };
+
+    row.total += 1;
+    if (record.status in row.statuses) row.statuses[record.status as InventoryStatus] += 1;
+    rows.set(key, row);
+  });
+
+  return Array.from(rows.values()).sort((a, b) => a.team.localeCompare(b.team) || a.part.localeCompare(b.part));
+}
+
+function csvCell<T>(column: ExportColumn<T>, row: T): SheetCell {
+  const value = column.value(row);
+  return value instanceof Date ? format(value, column.csvFormat ?? "yyyy-MM-dd HH:mm") : value;
+}
+
+export default function ReservationExport({ eventId, filters }: ReservationExportProps) {
+  const [isOpen, setIsOpen] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
+  const [mode, setMode] = useState<ExportMode>("units");
+  const [fileFormat, setFileFormat] = useState<ExportFormat>("csv");
+  const [selectedColumns, setSelectedColumns] = useState<Record<ExportMode, string[]>>(DEFAULT_COLUMNS);
   const { toast } = useToast();
 
-  const exportToCSV = async () => {
+  const columns = (mode === "units" ? UNIT_COLUMNS : COUNT_COLUMNS) as ExportColumn<ExportRecord | CountRow>[];
+  const chosenColumns = columns.filter((column) => selectedColumns[mode].includes(column.key));
+
+  const toggleColumn = (key: string, checked: boolean) => {
+    setSelectedColumns((current) => ({
+      ...current,
+      [mode]: checked ? [...current[mode], key] : current[mode].filter((selected) => selected !== key),
+    }));
+  };
+
+  const handleExport = async () => {
     setIsExporting(true);
     try {
-      // Fetch all reservations with related data
-      const { data, error } = await supabase
-        .from("inventory_tracking")
-        .select(`
-          id,
-          status,
-          scanned_at,
-          notes,
-          admin_remarks,
-          parts (
-            name,
-            description,
-            categories (
-              name
-            )
-          ),
-          profiles (
-            username
-          )
-        `)
-        .order("scanned_at", { ascending: false });
-
-      if (error) throw error;
-
-      // Convert to CSV
-      const headers = [
-        "Reservation ID",
-        "Username",
-        "Part Name",
-        "Category",
-        "Status",
-        "Date",
-        "Time",
-        "Notes",
-        "Admin Remarks"
-      ];
-
-      const rows = data.map(reservation => [
-        reservation.id,
-        reservation.profiles?.username || "Deleted User",
-        reservation.parts?.name || "Deleted Part",
-        reservation.parts?.categories?.name || "N/A",
-        reservation.status,
-        new Date(reservation.scanned_at).toLocaleDateString(),
-        new Date(reservation.scanned_at).toLocaleTimeString(),
-        reservation.notes || "",
-        reservation.admin_remarks || ""
-      ]);
-
-      // Create CSV content
-      const csvContent = [
-        headers.join(","),
-        ...rows.map(row => 
-          row.map(cell => 
-            // Escape commas and quotes in cell content
-            typeof cell === 'string' && (cell.includes(',') || cell.includes('"'))
-              ? `"${cell.replace(/"/g, '""')}"`
-              : cell
-          ).join(",")
-        )
-      ].join("\n");
-
-      // Create and download file
-      const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
-      const link = document.createElement("a");
-      const url = URL.createObjectURL(blob);
-      
-      link.setAttribute("href", url);
-      link.setAttribute("download", `reservations_${new Date().toISOString().split('T')[0]}.csv`);
-      link.style.visibility = "hidden";
-      
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
+      const dates = reservationDateRange(filters);
+
+      // Fetch the selected event's reservations with related data, filtered in
+      // the query. A category filter needs an inner join to filter on the part;
+      // the text search spans the joined tables, so it runs on the fetched rows.
+      const records = (
+        await fetchAllRows((from, to) => {
+          let query = supabase
+            .from("inventory_tracking")
+            .select(`
+              id,
+              team_id,
+              part_id,
+              status,
+              scanned_at,
+              due_at,
+              notes,
+              admin_remarks,
+              ${filters.categoryId ? "parts!inner" : "parts"} (
+                name,
+                category_id,
+                categories (
+                  name
+                )
+              ),
+              profiles (
+                username
+              ),
+              teams (
+                name
+              ),
+              events (
+                name
+              )
+            `)
+            .order("scanned_at", { ascending: false })
+            .order("id");
+          if (eventId) query = query.eq("event_id", eventId);
+          if (filters.teamId) query = query.eq("team_id", filters.teamId);
+          if (filters.status !== "all") query = query.eq("status", filters.status);
+          if (filters.categoryId) query = query.eq("parts.category_id", filters.categoryId);
+          if (dates.from) query = query.gte("scanned_at", dates.from);
+          if (dates.to) query = query.lt("scanned_at", dates.to);
+          return query.range(from, to).returns<ExportRecord[]>();
+        })
+      ).filter((record) => matchesReservationFilters(record, filters));
+      const rows: (ExportRecord | CountRow)[] = mode === "units" ? records : countByTeamAndPart(records);
+
+      const eventName = records[0]?.events?.name;
+      const fileName = [
+        eventName ? `reservations_${eventName.replace(/[^A-Za-z0-9]+/g, "_")}` : "reservations",
+        mode === "counts" ? "counts" : null,
+        isFiltered(filters) ? "filtered" : null,
+        new Date().toISOString().split("T")[0],
+      ]
+        .filter(Boolean)
+        .join("_");
+
+      if (fileFormat === "xlsx") {
+        await downloadWorkbook(`${fileName}.xlsx`, [
+          {
+            name: mode === "units" ? "Reservations" : "Counts",
+            columns: chosenColumns.map(({ key, header, numFmt }) => ({ key, header, numFmt })),
+            rows: rows.map((row) => Object.fromEntries(chosenColumns.map((column) => [column.key, column.value(row)]))),
+          },
+        ]);
+      } else {
+        const csvContent = toCsv([
+          chosenColumns.map((column) => column.header),
+          ...rows.map((row) => chosenColumns.map((column) => csvCell(column, row))),
+        ]);
+
+        // Create and download file
+        const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
+        const link = document.createElement("a");
+        const url = URL.createObjectURL(blob);
+
+        link.setAttribute("href", url);
+        link.setAttribute("download", `${fileName}.csv`);
+        link.style.visibility = "hidden";
+
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+      }
 
       toast({
         title: "Export successful",
-        description: `Exported ${data.length} reservations to CSV`,
+        description:
+          mode === "units"
+            ? `Exported ${records.length} reservations`
+            : `Exported ${rows.length} team and part totals covering ${records.length} reservations`,
       });
+      setIsOpen(false);
     } catch (error: any) {
       toast({
         title: "Export failed",
@@ -102,14 +252,83 @@ export default function ReservationExport() {
   };
 
   return (
-    <Button
-      onClick={exportToCSV}
-      disabled={isExporting}
-      variant="outline"
-      className="flex items-center gap-2"
-    >
-      <Download className="h-4 w-4" />
-      {isExporting ? "Exporting..." : "Export CSV"}
-    </Button>
+    <>
+      <Button onClick={() => setIsOpen(true)} variant="outline" className="flex items-center gap-2">
+        <Download className="h-4 w-4" />
+        Export
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Export Reservations</DialogTitle>
+            <DialogDescription>
+              {isFiltered(filters)
+                ? "Only reservations matching the filters currently applied are exported."
+                : "All reservations for the selected event are exported."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Rows</Label>
+              <RadioGroup value={mode} onValueChange={(value) => setMode(value as ExportMode)}>
+                <label className="flex items-center gap-2 text-sm cursor-pointer">
+                  <RadioGroupItem value="units" />
+                  One row per reserved unit
+                </label>
+                <label className="flex items-center gap-2 text-sm cursor-pointer">
+                  <RadioGroupItem value="counts" />
+                  Counts per team per part
+                </label>
+              </RadioGroup>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Columns</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {columns.map((column) => (
+                  <label key={column.key} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={selectedColumns[mode].includes(column.key)}
+                      onCheckedChange={(checked) => toggleColumn(column.key, checked === true)}
+                    />
+                    {column.header}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <RadioGroup
+                value={fileFormat}
+                onValueChange={(value) => setFileFormat(value as ExportFormat)}
+                className="flex gap-4"
+              >
+                <label className="flex items-center gap-2 text-sm cursor-pointer">
+                  <RadioGroupItem value="csv" />
+                  CSV
+                </label>
+                <label className="flex items-center gap-2 text-sm cursor-pointer">
+                  <RadioGroupItem value="xlsx" />
+                  Excel (XLSX)
+                </label>
+              </RadioGroup>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleExport} disabled={isExporting || chosenColumns.length === 0}>
+              <Download className="h-4 w-4 mr-2" />
+              {isExporting ? "Exporting..." : "Export"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
   );
 }
@@ -0,0 +1,108 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Search, X } from "lucide-react";
+import { STATUS_LABELS, type InventoryStatus } from "@/lib/inventory-status";
+import { EMPTY_RESERVATION_FILTERS, isFiltered, type ReservationFilters } from "@/lib/reservation-filters";
+
+interface FilterOption<T> {
+  id: T;
+  name: string;
+}
+
+interface ReservationFilterBarProps {
+  filters: ReservationFilters;
+  onChange: (filters: ReservationFilters) => void;
+  // Leave out to hide the team filter, e.g. where a team is already picked
+  teams?: FilterOption<string>[];
+  categories: FilterOption<number>[];
+}
+
+export default function ReservationFilterBar({ filters, onChange, teams, categories }: ReservationFilterBarProps) {
+  const update = (changes: Partial<ReservationFilters>) => onChange({ ...filters, ...changes });
+
+  const clear = () =>
+    // The team filter belongs to the caller when it is hidden
+    onChange({ ...EMPTY_RESERVATION_FILTERS, teamId: teams ? null : filters.teamId });
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="relative flex-1 min-w-[220px]">
+        <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder="Search by component, team, user or category..."
+          value={filters.search}
+          onChange={(e) => update({ search: e.target.value })}
+          className="pl-10"
+        />
+      </div>
+      {teams && (
+        <Select value={filters.teamId ?? "all"} onValueChange={(value) => update({ teamId: value === "all" ? null : value })}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Teams</SelectItem>
+            {teams.map((team) => (
+              <SelectItem key={team.id} value={team.id}>
+                {team.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      <Select
+        value={filters.categoryId ? String(filters.categoryId) : "all"}
+        onValueChange={(value) => update({ categoryId: value === "all" ? null : Number(value) })}
+      >
+        <SelectTrigger className="w-44">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All Categories</SelectItem>
+          {categories.map((category) => (
+            <SelectItem key={category.id} value={String(category.id)}>
+              {category.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select value={filters.status} onValueChange={(value) => update({ status: value as "all" | InventoryStatus })}>
+        <SelectTrigger className="w-36">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All Status</SelectItem>
+          {(Object.keys(STATUS_LABELS) as InventoryStatus[]).map((status) => (
+            <SelectItem key={status} value={status}>
+              {STATUS_LABELS[status]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input
+        type="date"
+        aria-label="From date"
+        value={filters.from}
+        max={filters.to || undefined}
+        onChange={(e) => update({ from: e.target.value })}
+        className="w-40"
+      />
+      <span className="text-sm text-muted-foreground">to</span>
+      <Input
+        type="date"
+        aria-label="To date"
+        value={filters.to}
+        min={filters.from || undefined}
+        onChange={(e) => update({ to: e.target.value })}
+        className="w-40"
+      />
+      {isFiltered({ ...filters, teamId: teams ? filters.teamId : null }) && (
+        <Button variant="ghost" size="sm" onClick={clear}>
+          <X className="h-4 w-4 mr-1" />
+          Clear
+        </Button>
+      )}
+    </div>
+  );
+}
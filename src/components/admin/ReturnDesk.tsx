@@ -0,0 +1,288 @@
+import { useState, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Undo2, ScanLine, AlertTriangle, Printer, RotateCcw } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+interface Team {
+  id: string;
+  name: string;
+}
+
+type ReturnCondition = "ok" | "damaged";
+
+interface ReturnResult {
+  matched: boolean;
+  reason?: "unknown_barcode" | "not_issued";
+  barcode: string;
+  part_id?: number;
+  part_name?: string;
+  team_name?: string | null;
+  member_username?: string | null;
+  status?: "returned" | "damaged";
+}
+
+interface ReceiptLine {
+  id: number;
+  partName: string;
+  barcode: string;
+  teamName: string;
+  memberUsername: string | null;
+  status: "returned" | "damaged";
+  at: Date;
+}
+
+interface ReturnDeskProps {
+  onStatsUpdate: () => void;
+}
+
+const ANY_TEAM = "any";
+
+export default function ReturnDesk({ onStatsUpdate }: ReturnDeskProps) {
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [selectedTeamId, setSelectedTeamId] = useState(ANY_TEAM);
+  const [condition, setCondition] = useState<ReturnCondition>("ok");
+  const [partBarcode, setPartBarcode] = useState("");
+  const [receipt, setReceipt] = useState<ReceiptLine[]>([]);
+  const [lastWarning, setLastWarning] = useState<string | null>(null);
+  const [sessionStartedAt, setSessionStartedAt] = useState(new Date());
+  const [isLoading, setIsLoading] = useState(false);
+  const partInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadTeams();
+    partInputRef.current?.focus();
+  }, []);
+
+  const loadTeams = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("teams")
+        .select("id, name")
+        .order("name");
+
+      if (error) throw error;
+      setTeams(data || []);
+    } catch (error: any) {
+      console.error("Error loading teams:", error);
+    }
+  };
+
+  const handlePartScan = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = partBarcode.trim();
+    if (!code) return;
+
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase.rpc("return_issued_by_barcode", {
+        p_barcode: code,
+        p_team_id: selectedTeamId === ANY_TEAM ? null : selectedTeamId,
+        p_condition: condition,
+      });
+
+      if (error) throw error;
+      const result = data as unknown as ReturnResult;
+
+      if (result.matched) {
+        setLastWarning(null);
+        setReceipt(prev => [
+          {
+            id: prev.length + 1,
+            partName: result.part_name,
+            barcode: code,
+            teamName: result.team_name || "No Team",
+            memberUsername: result.member_username ?? null,
+            status: result.status,
+            at: new Date(),
+          },
+          ...prev,
+        ]);
+        // Damage is the exception, so drop back to "ok" after each one
+        setCondition("ok");
+        onStatsUpdate();
+      } else if (result.reason === "unknown_barcode") {
+        setLastWarning(`Barcode ${code} does not match any part`);
+      } else {
+        const selectedTeam = teams.find((team) => team.id === selectedTeamId);
+        setLastWarning(
+          selectedTeam
+            ? `${result.part_name} is not issued to ${selectedTeam.name}`
+            : `No issued ${result.part_name} is waiting to be returned`
+        );
+      }
+    } catch (error: any) {
+      toast({
+        title: "Error returning part",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setPartBarcode("");
+      setIsLoading(false);
+      partInputRef.current?.focus();
+    }
+  };
+
+  const handleNewSession = () => {
+    if (receipt.length > 0 && !confirm("Start a new session? The current receipt will be cleared.")) {
+      return;
+    }
+    setReceipt([]);
+    setLastWarning(null);
+    setSessionStartedAt(new Date());
+    partInputRef.current?.focus();
+  };
+
+  const returnedCount = receipt.filter((line) => line.status === "returned").length;
+  const damagedCount = receipt.filter((line) => line.status === "damaged").length;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Undo2 className="h-5 w-5" />
+            Return Desk
+          </CardTitle>
+          <CardDescription>Check parts back in by scanning them as teams hand them over</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Returning Team</Label>
+              <Select value={selectedTeamId} onValueChange={setSelectedTeamId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_TEAM}>Any team (oldest loan first)</SelectItem>
+                  {teams.map((team) => (
+                    <SelectItem key={team.id} value={team.id}>
+                      {team.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Condition</Label>
+              <RadioGroup
+                value={condition}
+                onValueChange={(value) => setCondition(value as ReturnCondition)}
+                className="flex gap-6 h-10 items-center"
+              >
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="ok" id="condition-ok" />
+                  <Label htmlFor="condition-ok">OK</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="damaged" id="condition-damaged" />
+                  <Label htmlFor="condition-damaged">Damaged</Label>
+                </div>
+              </RadioGroup>
+            </div>
+          </div>
+
+          <Card className="bg-muted/50">
+            <CardHeader>
+              <CardTitle className="text-base flex items-center gap-2">
+                <ScanLine className="h-5 w-5" />
+                Scan Returned Parts
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <form onSubmit={handlePartScan} className="flex gap-2">
+                <Input
+                  ref={partInputRef}
+                  placeholder="Scan part barcode..."
+                  value={partBarcode}
+                  onChange={(e) => setPartBarcode(e.target.value)}
+                  disabled={isLoading}
+                />
+                <Button type="submit" disabled={isLoading || !partBarcode.trim()}>
+                  {isLoading ? "Returning..." : condition === "damaged" ? "Return as Damaged" : "Return"}
+                </Button>
+              </form>
+              {lastWarning && (
+                <div className="flex items-center gap-2 rounded-md border border-destructive p-2 text-sm text-destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  {lastWarning}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <div>
+                <h3 className="font-semibold">Session Receipt</h3>
+                <p className="text-xs text-muted-foreground">
+                  Started {sessionStartedAt.toLocaleString()} · {returnedCount} returned · {damagedCount} damaged
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" onClick={() => window.print()} disabled={receipt.length === 0}>
+                  <Printer className="h-4 w-4 mr-1" />
+                  Print
+                </Button>
+                <Button size="sm" variant="outline" onClick={handleNewSession}>
+                  <RotateCcw className="h-4 w-4 mr-1" />
+                  New Session
+                </Button>
+              </div>
+            </div>
+            {receipt.length === 0 ? (
+              <div className="text-center py-8 border rounded-lg bg-muted/30">
+                <Undo2 className="h-12 w-12 mx-auto text-muted-foreground mb-2" />
+                <p className="text-muted-foreground">No parts returned in this session yet</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Part Name</TableHead>
+                    <TableHead>Barcode</TableHead>
+                    <TableHead>Team</TableHead>
+                    <TableHead>Condition</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {receipt.map((line) => (
+                    <TableRow key={line.id}>
+                      <TableCell>{line.at.toLocaleTimeString()}</TableCell>
+                      <TableCell className="font-medium">{line.partName}</TableCell>
+                      <TableCell>
+                        <code className="text-xs">{line.barcode}</code>
+                      </TableCell>
+                      <TableCell>
+                        {line.teamName}
+                        {line.memberUsername && (
+                          <div className="text-xs text-muted-foreground">placed by {line.memberUsername}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={line.status === "damaged" ? "destructive" : "secondary"}>
+                          {line.status === "damaged" ? "Damaged" : "OK"}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,481 @@
+import { useState, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { ClipboardList, ScanLine } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { parseMultiplierScan } from "@/lib/barcode";
+
+interface Category {
+  id: number;
+  name: string;
+}
+
+interface StocktakeSession {
+  id: string;
+  category_ids: number[];
+  notes: string | null;
+  created_at: string;
+}
+
+interface StocktakePart {
+  id: number;
+  name: string;
+  barcode: string | null;
+  quantity: number;
+  category_id: number;
+}
+
+interface ScanResult {
+  matched: boolean;
+  reason?: "unknown_barcode" | "wrong_category";
+  part_id?: number;
+  part_name?: string;
+  counted?: number;
+}
+
+interface StocktakeProps {
+  onStatsUpdate: () => void;
+}
+
+export default function Stocktake({ onStatsUpdate }: StocktakeProps) {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [session, setSession] = useState<StocktakeSession | null>(null);
+  const [selectedCategoryIds, setSelectedCategoryIds] = useState<number[]>([]);
+  const [notes, setNotes] = useState("");
+  const [parts, setParts] = useState<StocktakePart[]>([]);
+  const [reservedCounts, setReservedCounts] = useState<Record<number, number>>({});
+  const [counts, setCounts] = useState<Record<number, number>>({});
+  const [countInputs, setCountInputs] = useState<Record<number, string>>({});
+  const [barcode, setBarcode] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const barcodeInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadCategories();
+    loadOpenSession();
+  }, []);
+
+  useEffect(() => {
+    if (session) {
+      loadSessionData(session);
+      barcodeInputRef.current?.focus();
+    } else {
+      setParts([]);
+      setCounts({});
+      setCountInputs({});
+    }
+  }, [session?.id]);
+
+  const loadCategories = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("categories")
+        .select("id, name")
+        .order("name");
+
+      if (error) throw error;
+      setCategories(data || []);
+    } catch (error: any) {
+      console.error("Error loading categories:", error);
+    }
+  };
+
+  const loadOpenSession = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("stocktakes")
+        .select("id, category_ids, notes, created_at")
+        .eq("status", "open")
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      setSession(data);
+    } catch (error: any) {
+      toast({
+        title: "Error loading stocktake",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const loadSessionData = async (current: StocktakeSession) => {
+    try {
+      const { data: partsData, error: partsError } = await supabase
+        .from("parts")
+        .select("id, name, barcode, quantity, category_id")
+        .in("category_id", current.category_ids)
+        .order("name");
+
+      if (partsError) throw partsError;
+
+      const partIds = (partsData || []).map((part) => part.id);
+      const { data: reservedData, error: reservedError } = await supabase
+        .from("inventory_tracking")
+        .select("part_id")
+        .in("part_id", partIds)
+        .eq("status", "reserved");
+
+      if (reservedError) throw reservedError;
+
+      const { data: countData, error: countError } = await supabase
+        .from("stocktake_counts")
+        .select("part_id, counted")
+        .eq("stocktake_id", current.id);
+
+      if (countError) throw countError;
+
+      setParts(partsData || []);
+      setReservedCounts(
+        (reservedData || []).reduce((acc, row) => {
+          acc[row.part_id] = (acc[row.part_id] || 0) + 1;
+          return acc;
+        }, {} as Record<number, number>)
+      );
+      const loadedCounts = Object.fromEntries((countData || []).map((row) => [row.part_id, row.counted]));
+      setCounts(loadedCounts);
+      setCountInputs(Object.fromEntries(Object.entries(loadedCounts).map(([id, value]) => [id, String(value)])));
+    } catch (error: any) {
+      toast({
+        title: "Error loading stocktake",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const toggleCategory = (categoryId: number, checked: boolean) => {
+    setSelectedCategoryIds((prev) =>
+      checked ? [...prev, categoryId] : prev.filter((id) => id !== categoryId)
+    );
+  };
+
+  const handleStart = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (selectedCategoryIds.length === 0) return;
+
+    setIsLoading(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      const { data, error } = await supabase
+        .from("stocktakes")
+        .insert([{
+          category_ids: selectedCategoryIds,
+          notes: notes.trim() || null,
+          created_by: user?.id,
+        }])
+        .select("id, category_ids, notes, created_at")
+        .single();
+
+      if (error) throw error;
+
+      setSelectedCategoryIds([]);
+      setNotes("");
+      setSession(data);
+    } catch (error: any) {
+      toast({
+        title: "Error starting stocktake",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleScan = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!session || !barcode.trim()) return;
+
+    setIsLoading(true);
+    try {
+      const { code, multiplier } = parseMultiplierScan(barcode);
+
+      const { data, error } = await supabase.rpc("record_stocktake_scan", {
+        p_stocktake_id: session.id,
+        p_barcode: code,
+        p_quantity: multiplier ?? 1,
+      });
+
+      if (error) throw error;
+      const result = data as unknown as ScanResult;
+
+      if (result.matched) {
+        setCounts((prev) => ({ ...prev, [result.part_id]: result.counted }));
+        setCountInputs((prev) => ({ ...prev, [result.part_id]: String(result.counted) }));
+      } else {
+        toast({
+          title: result.reason === "wrong_category" ? "Not part of this stocktake" : "Barcode not found",
+          description: result.reason === "wrong_category"
+            ? `${result.part_name} belongs to a category that is not being counted.`
+            : `No part has barcode ${code}.`,
+          variant: "destructive",
+        });
+      }
+    } catch (error: any) {
+      toast({
+        title: "Error recording count",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setBarcode("");
+      setIsLoading(false);
+      barcodeInputRef.current?.focus();
+    }
+  };
+
+  const handleCountBlur = async (partId: number) => {
+    if (!session) return;
+    const raw = countInputs[partId];
+    if (raw === undefined || raw === "" || parseInt(raw) === counts[partId]) return;
+
+    const counted = parseInt(raw);
+    if (isNaN(counted) || counted < 0) {
+      setCountInputs((prev) => ({ ...prev, [partId]: counts[partId] !== undefined ? String(counts[partId]) : "" }));
+      return;
+    }
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      const { error } = await supabase
+        .from("stocktake_counts")
+        .upsert(
+          [{ stocktake_id: session.id, part_id: partId, counted, counted_by: user?.id }],
+          { onConflict: "stocktake_id,part_id" }
+        );
+
+      if (error) throw error;
+      setCounts((prev) => ({ ...prev, [partId]: counted }));
+    } catch (error: any) {
+      toast({
+        title: "Error saving count",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCommit = async () => {
+    if (!session) return;
+    if (!confirm("Commit this stocktake? Stock levels will be adjusted to match the counted quantities.")) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase.rpc("commit_stocktake", {
+        p_stocktake_id: session.id,
+      });
+
+      if (error) throw error;
+      const result = data as { adjusted: number };
+
+      toast({
+        title: "Stocktake committed",
+        description: `${result.adjusted} part${result.adjusted === 1 ? "" : "s"} adjusted.`,
+      });
+
+      setSession(null);
+      onStatsUpdate();
+    } catch (error: any) {
+      toast({
+        title: "Error committing stocktake",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDiscard = async () => {
+    if (!session) return;
+    if (!confirm("Discard this stocktake? Recorded counts will not be applied.")) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from("stocktakes")
+        .update({ status: "cancelled" })
+        .eq("id", session.id);
+
+      if (error) throw error;
+      setSession(null);
+    } catch (error: any) {
+      toast({
+        title: "Error discarding stocktake",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const categoryName = (id: number) => categories.find((cat) => cat.id === id)?.name || "N/A";
+  const expectedFor = (part: StocktakePart) => part.quantity + (reservedCounts[part.id] || 0);
+  const countedParts = parts.filter((part) => counts[part.id] !== undefined);
+  const varianceParts = countedParts.filter((part) => counts[part.id] !== expectedFor(part));
+
+  if (!session) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardList className="h-5 w-5" />
+            Stocktake
+          </CardTitle>
+          <CardDescription>Count what is on the shelves and reconcile it against recorded stock</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleStart} className="space-y-4">
+            <div className="space-y-2">
+              <Label>Categories to count</Label>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                {categories.map((category) => (
+                  <label key={category.id} className="flex items-center gap-2 rounded-md border p-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={selectedCategoryIds.includes(category.id)}
+                      onCheckedChange={(checked) => toggleCategory(category.id, checked === true)}
+                    />
+                    {category.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="stocktake-notes">Notes (optional)</Label>
+              <Textarea
+                id="stocktake-notes"
+                placeholder="e.g., End of day one count"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+              />
+            </div>
+            <Button type="submit" disabled={isLoading || selectedCategoryIds.length === 0}>
+              {isLoading ? "Starting..." : "Start Stocktake"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ClipboardList className="h-5 w-5" />
+              Stocktake in Progress
+            </CardTitle>
+            <CardDescription>
+              Started {new Date(session.created_at).toLocaleString()} ·{" "}
+              {session.category_ids.map(categoryName).join(", ")}
+              {session.notes && ` · ${session.notes}`}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleDiscard} disabled={isLoading}>
+              Discard
+            </Button>
+            <Button onClick={handleCommit} disabled={isLoading || countedParts.length === 0}>
+              Commit Adjustments
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleScan} className="flex gap-2">
+          <Input
+            ref={barcodeInputRef}
+            placeholder="Scan part barcode to count one unit (e.g. 10*CODE for ten)..."
+            value={barcode}
+            onChange={(e) => setBarcode(e.target.value)}
+            disabled={isLoading}
+          />
+          <Button type="submit" disabled={isLoading || !barcode.trim()}>
+            <ScanLine className="h-4 w-4 mr-2" />
+            Count
+          </Button>
+        </form>
+
+        <div className="flex gap-4 text-sm text-muted-foreground">
+          <span>{countedParts.length} of {parts.length} parts counted</span>
+          <span>{varianceParts.length} with variance</span>
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          Expected counts include reserved units that have not been picked up yet. Issued units are with the teams
+          and are not expected on the shelf. Only counted parts are adjusted when the stocktake is committed.
+        </p>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Part Name</TableHead>
+              <TableHead>Category</TableHead>
+              <TableHead className="text-right">Available</TableHead>
+              <TableHead className="text-right">Reserved</TableHead>
+              <TableHead className="text-right">Expected</TableHead>
+              <TableHead className="w-28">Counted</TableHead>
+              <TableHead className="text-right">Variance</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {parts.map((part) => {
+              const expected = expectedFor(part);
+              const counted = counts[part.id];
+              const variance = counted === undefined ? null : counted - expected;
+              return (
+                <TableRow key={part.id}>
+                  <TableCell className="font-medium">
+                    {part.name}
+                    {part.barcode && <code className="block text-xs text-muted-foreground">{part.barcode}</code>}
+                  </TableCell>
+                  <TableCell>{categoryName(part.category_id)}</TableCell>
+                  <TableCell className="text-right">{part.quantity}</TableCell>
+                  <TableCell className="text-right">{reservedCounts[part.id] || 0}</TableCell>
+                  <TableCell className="text-right">{expected}</TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      placeholder="—"
+                      value={countInputs[part.id] ?? ""}
+                      onChange={(e) => setCountInputs((prev) => ({ ...prev, [part.id]: e.target.value }))}
+                      onBlur={() => handleCountBlur(part.id)}
+                      className="h-8"
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {variance === null ? (
+                      <span className="text-muted-foreground text-xs">Not counted</span>
+                    ) : (
+                      <Badge variant={variance === 0 ? "secondary" : "destructive"}>
+                        {variance > 0 ? `+${variance}` : variance}
+                      </Badge>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,121 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+export default function SystemSettings() {
+  const [cancellationWindow, setCancellationWindow] = useState("30");
+  const [unlimitedCancellation, setUnlimitedCancellation] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("app_settings")
+        .select("*")
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return;
+
+      setUnlimitedCancellation(data.cancellation_window_minutes === null);
+      setCancellationWindow(String(data.cancellation_window_minutes ?? 30));
+    } catch (error: any) {
+      toast({
+        title: "Error loading settings",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    try {
+      const minutes = parseInt(cancellationWindow);
+      if (!unlimitedCancellation && (isNaN(minutes) || minutes < 0)) {
+        throw new Error("Cancellation window must be 0 or more minutes");
+      }
+
+      const { error } = await supabase
+        .from("app_settings")
+        .update({ cancellation_window_minutes: unlimitedCancellation ? null : minutes })
+        .eq("id", true);
+
+      if (error) throw error;
+
+      toast({
+        title: "Settings saved",
+        description: "System settings have been updated.",
+      });
+    } catch (error: any) {
+      toast({
+        title: "Error saving settings",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>System Settings</CardTitle>
+        <CardDescription>Configure system preferences and options</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSave} className="space-y-6">
+          <div className="space-y-4">
+            <h3 className="font-semibold">Reservation Cancellation</h3>
+            <div className="flex items-center justify-between rounded-lg border p-4">
+              <div>
+                <Label htmlFor="unlimited-cancellation">Allow cancelling at any time</Label>
+                <p className="text-xs text-muted-foreground">
+                  Teams can cancel reserved items until they are picked up
+                </p>
+              </div>
+              <Switch
+                id="unlimited-cancellation"
+                checked={unlimitedCancellation}
+                onCheckedChange={setUnlimitedCancellation}
+              />
+            </div>
+            {!unlimitedCancellation && (
+              <div className="space-y-2">
+                <Label htmlFor="cancellation-window">Cancellation window (minutes)</Label>
+                <Input
+                  id="cancellation-window"
+                  type="number"
+                  min="0"
+                  value={cancellationWindow}
+                  onChange={(e) => setCancellationWindow(e.target.value)}
+                  className="w-48"
+                  required
+                />
+                <p className="text-xs text-muted-foreground">
+                  How long after reserving a team may cancel on its own. Set to 0 to disable self-service cancellation.
+                </p>
+              </div>
+            )}
+          </div>
+          <Button type="submit" disabled={isLoading}>
+            {isLoading ? "Saving..." : "Save Settings"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
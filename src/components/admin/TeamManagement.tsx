@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Edit, Trash2, Users, Plus } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+interface Team {
+  id: string;
+  name: string;
+}
+
+interface TeamManagementProps {
+  teams: Team[];
+  memberNames: Record<string, string[]>;
+  onTeamsChange: () => void;
+}
+
+export default function TeamManagement({ teams, memberNames, onTeamsChange }: TeamManagementProps) {
+  const [newTeamName, setNewTeamName] = useState("");
+  const [editingTeam, setEditingTeam] = useState<Team | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  const handleAddTeam = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newTeamName.trim();
+    if (!name) return;
+
+    setIsLoading(true);
+    try {
+      const { error } = await supabase.from("teams").insert({ name });
+
+      if (error) throw error;
+
+      toast({
+        title: "Team created",
+        description: `${name} is ready for members.`,
+      });
+      setNewTeamName("");
+      onTeamsChange();
+    } catch (error: any) {
+      toast({
+        title: "Error creating team",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRenameTeam = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!editingTeam) return;
+
+    const formData = new FormData(e.currentTarget);
+    const name = (formData.get("name") as string).trim();
+
+    setIsLoading(true);
+    try {
+      const { error } = await supabase.from("teams").update({ name }).eq("id", editingTeam.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Team renamed",
+        description: `${editingTeam.name} is now ${name}.`,
+      });
+      setEditingTeam(null);
+      onTeamsChange();
+    } catch (error: any) {
+      toast({
+        title: "Error renaming team",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDeleteTeam = async (team: Team) => {
+    const members = memberNames[team.id] || [];
+    if (
+      !confirm(
+        `Delete team "${team.name}"?${members.length > 0 ? ` Its ${members.length} member(s) will be left without a team.` : ""} Past reservations keep their history but lose the team name.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase.from("teams").delete().eq("id", team.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Team deleted",
+        description: `${team.name} has been deleted.`,
+      });
+      onTeamsChange();
+    } catch (error: any) {
+      toast({
+        title: "Error deleting team",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Teams</CardTitle>
+        <CardDescription>
+          Reservations and category limits are shared by every member of a team
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleAddTeam} className="flex gap-2">
+          <Input
+            placeholder="New team name"
+            value={newTeamName}
+            onChange={(e) => setNewTeamName(e.target.value)}
+            className="max-w-xs"
+          />
+          <Button type="submit" disabled={isLoading || !newTeamName.trim()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Team
+          </Button>
+        </form>
+
+        {teams.length === 0 ? (
+          <div className="text-center py-8">
+            <Users className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">No teams yet. Add a team, then assign members to it.</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Team</TableHead>
+                <TableHead>Members</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {teams.map((team) => (
+                <TableRow key={team.id}>
+                  <TableCell className="font-medium">{team.name}</TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {(memberNames[team.id] || []).join(", ") || "—"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex gap-2 justify-end">
+                      <Button size="sm" variant="outline" onClick={() => setEditingTeam(team)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => handleDeleteTeam(team)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!editingTeam} onOpenChange={(open) => !open && setEditingTeam(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rename Team</DialogTitle>
+            <DialogDescription>Members and reservations stay with the team</DialogDescription>
+          </DialogHeader>
+          {editingTeam && (
+            <form onSubmit={handleRenameTeam}>
+              <div className="space-y-2">
+                <Label htmlFor="team-name">Team Name</Label>
+                <Input id="team-name" name="name" defaultValue={editingTeam.name} required />
+              </div>
+              <DialogFooter className="mt-6">
+                <Button type="button" variant="outline" onClick={() => setEditingTeam(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isLoading}>
+                  {isLoading ? "Saving..." : "Save"}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -7,35 +7,71 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
-import { Plus, Edit, Trash2, Users, UserPlus } from "lucide-react";
+import { Plus, Edit, Trash2, Users, UserPlus, KeyRound } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth, ROLE_LABELS, type UserRole } from "@/hooks/use-auth";
+import { readFunctionError } from "@/lib/functions";
+import BulkUserImport from "./BulkUserImport";
+import TeamManagement from "./TeamManagement";
 
 interface UserProfile {
   id: string;
   username: string;
-  role: "admin" | "team";
+  role: UserRole;
   created_at: string;
   user_id: string;
+  must_change_password: boolean;
+  team_id: string | null;
 }
 
+interface Team {
+  id: string;
+  name: string;
+}
+
+// Radix Select can't use an empty string as an item value
+const NO_TEAM = "none";
+
 interface UserManagementProps {
   onStatsUpdate: () => void;
 }
 
 export default function UserManagement({ onStatsUpdate }: UserManagementProps) {
   const [users, setUsers] = useState<UserProfile[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
   const [selectedUser, setSelectedUser] = useState<UserProfile | null>(null);
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [createdCreds, setCreatedCreds] = useState<{ username: string; password: string } | null>(null);
+  const [resetCreds, setResetCreds] = useState<{ username: string; password: string } | null>(null);
+  const { session } = useAuth();
   const { toast } = useToast();
 
   useEffect(() => {
     loadUsers();
+    loadTeams();
   }, []);
 
+  const loadTeams = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("teams")
+        .select("id, name")
+        .order("name");
+
+      if (error) throw error;
+      setTeams(data || []);
+    } catch (error: any) {
+      toast({
+        title: "Error loading teams",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
   const loadUsers = async () => {
     try {
       const { data, error } = await supabase
@@ -60,15 +96,17 @@ const handleAddUser = async (e: React.FormEvent<HTMLFormElement>) => {
 
   const formData = new FormData(e.currentTarget);
   const username = (formData.get("username") as string).trim();
-  const role = (formData.get("role") as "admin" | "team") || "team";
+  const role = (formData.get("role") as UserRole) || "team";
   const password = (formData.get("password") as string).trim();
+  const teamField = formData.get("team_id") as string | null;
+  const teamId = role === "team" && teamField && teamField !== NO_TEAM ? teamField : null;
 
   try {
     if (username.length < 3) throw new Error("Username must be at least 3 characters");
     if (password.length < 6) throw new Error("Password must be at least 6 characters");
 
     const { data, error } = await supabase.functions.invoke("admin-create-user", {
-      body: { username, password, role },
+      body: { username, password, role, teamId },
     });
 
     if (error) throw new Error((error as any).message || "Failed to create user");
@@ -102,12 +140,15 @@ const handleAddUser = async (e: React.FormEvent<HTMLFormElement>) => {
 
     const formData = new FormData(e.currentTarget);
     const username = formData.get("username") as string;
-    const role = formData.get("role") as "admin" | "team";
+    const role = formData.get("role") as UserRole;
+    const teamField = formData.get("team_id") as string | null;
+    // Only team members belong to a team
+    const team_id = role === "team" && teamField && teamField !== NO_TEAM ? teamField : null;
 
     try {
       const { error } = await supabase
         .from("profiles")
-        .update({ username, role })
+        .update({ username, role, team_id })
         .eq("id", selectedUser.id);
 
       if (error) throw error;
@@ -173,12 +214,56 @@ const handleAddUser = async (e: React.FormEvent<HTMLFormElement>) => {
     }
   };
 
+  const handleResetPassword = async (user: UserProfile) => {
+    if (!confirm(`Reset the password for "${user.username}"? Their current password will stop working.`)) {
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase.functions.invoke("admin-reset-password", {
+        body: { userId: user.user_id },
+      });
+
+      if (error) {
+        const body = await readFunctionError(error);
+        throw new Error(body?.error || error.message || "Failed to reset password");
+      }
+
+      setResetCreds({ username: data.username, password: data.password });
+      loadUsers();
+    } catch (error: any) {
+      toast({
+        title: "Error resetting password",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
   const getRoleBadgeVariant = (role: string) => {
-    return role === "admin" ? "destructive" : "default";
+    if (role === "admin") return "destructive";
+    return role === "staff" ? "secondary" : "default";
   };
 
+  const teamNames = Object.fromEntries(teams.map((team) => [team.id, team.name]));
+  const memberNames = users.reduce<Record<string, string[]>>((members, user) => {
+    if (user.team_id) {
+      members[user.team_id] = [...(members[user.team_id] || []), user.username];
+    }
+    return members;
+  }, {});
+
   return (
     <div className="space-y-6">
+      <TeamManagement
+        teams={teams}
+        memberNames={memberNames}
+        onTeamsChange={() => {
+          loadTeams();
+          loadUsers();
+        }}
+      />
+
       <Card>
         <CardHeader>
           <div className="flex items-center justify-between">
@@ -186,14 +271,23 @@ const handleAddUser = async (e: React.FormEvent<HTMLFormElement>) => {
               <CardTitle>User Management</CardTitle>
               <CardDescription>Create and manage team member accounts</CardDescription>
             </div>
-            <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
-              <DialogTrigger asChild>
-                <Button>
-                  <UserPlus className="h-4 w-4 mr-2" />
-                  Add User
-                </Button>
-              </DialogTrigger>
-              <DialogContent>
+            <div className="flex gap-2">
+              <BulkUserImport
+                existingUsernames={users.map((user) => user.username)}
+                onImportComplete={() => {
+                  loadUsers();
+                  loadTeams();
+                  onStatsUpdate();
+                }}
+              />
+              <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
+                <DialogTrigger asChild>
+                  <Button>
+                    <UserPlus className="h-4 w-4 mr-2" />
+                    Add User
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
 <DialogHeader>
   <DialogTitle>Add New User</DialogTitle>
   <DialogDescription>Create a new team member account</DialogDescription>
@@ -216,52 +310,69 @@ const handleAddUser = async (e: React.FormEvent<HTMLFormElement>) => {
         </SelectTrigger>
         <SelectContent>
           <SelectItem value="team">Team Member</SelectItem>
+          <SelectItem value="staff">Desk Staff</SelectItem>
           <SelectItem value="admin">Administrator</SelectItem>
         </SelectContent>
       </Select>
     </div>
+    <div className="space-y-2">
+      <Label htmlFor="team_id">Team</Label>
+      <Select name="team_id" defaultValue={NO_TEAM}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_TEAM}>No team</SelectItem>
+          {teams.map((team) => (
+            <SelectItem key={team.id} value={team.id}>
+              {team.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
 
     {createdCreds && (
       <div className="rounded-md border bg-primary/5 p-4 space-y-3">
         <div className="font-medium text-primary">✓ User Created Successfully!</div>
         <div className="space-y-2 text-sm">
           <div className="flex items-center justify-between p-2 rounded bg-background">
-            <div>
-              <div className="text-muted-foreground text-xs">Login Username:</div>
-              <div className="font-mono font-medium">{createdCreds.username}</div>
-            </div>
-            <Button 
-              type="button" 
-              variant="outline" 
-              size="sm" 
-              onClick={() => {
-                navigator.clipboard.writeText(createdCreds.username);
-                toast({ title: "Copied!", description: "Username copied to clipboard" });
-              }}
-            >
-              Copy
-            </Button>
+              <div>
+                <div className="text-muted-foreground text-xs">Login Username:</div>
+                <div className="font-mono font-medium">{createdCreds.username}</div>
+              </div>
+              <Button 
+                type="button" 
+                variant="outline" 
+                size="sm" 
+                onClick={() => {
+                  navigator.clipboard.writeText(createdCreds.username);
+                  toast({ title: "Copied!", description: "Username copied to clipboard" });
+                }}
+              >
+                Copy
+              </Button>
           </div>
           <div className="flex items-center justify-between p-2 rounded bg-background">
-            <div>
-              <div className="text-muted-foreground text-xs">Password:</div>
-              <div className="font-mono font-medium">{createdCreds.password}</div>
-            </div>
-            <Button 
-              type="button" 
-              variant="outline" 
-              size="sm" 
-              onClick={() => {
-                navigator.clipboard.writeText(createdCreds.password);
-                toast({ title: "Copied!", description: "Password copied to clipboard" });
-              }}
-            >
-              Copy
-            </Button>
+              <div>
+                <div className="text-muted-foreground text-xs">Password:</div>
+                <div className="font-mono font-medium">{createdCreds.password}</div>
+              </div>
+              <Button 
+                type="button" 
+                variant="outline" 
+                size="sm" 
+                onClick={() => {
+                  navigator.clipboard.writeText(createdCreds.password);
+                  toast({ title: "Copied!", description: "Password copied to clipboard" });
+                }}
+              >
+                Copy
+              </Button>
           </div>
         </div>
         <div className="text-xs text-muted-foreground bg-muted p-2 rounded">
-          <strong>Important:</strong> Share these credentials with the team member. They should use the <strong>username</strong> (not email) to login.
+          <strong>Important:</strong> Share these credentials with the team member. They should use the <strong>username</strong> (not email) to login and will be asked to choose their own password.
         </div>
       </div>
     )}
@@ -284,8 +395,9 @@ const handleAddUser = async (e: React.FormEvent<HTMLFormElement>) => {
     )}
   </DialogFooter>
 </form>
-              </DialogContent>
-            </Dialog>
+                </DialogContent>
+              </Dialog>
+            </div>
           </div>
         </CardHeader>
         <CardContent>
@@ -300,6 +412,7 @@ const handleAddUser = async (e: React.FormEvent<HTMLFormElement>) => {
                 <TableRow>
                   <TableHead>Username</TableHead>
                   <TableHead>Role</TableHead>
+                  <TableHead>Team</TableHead>
                   <TableHead>Created</TableHead>
                   <TableHead>Password</TableHead>
                   <TableHead className="text-right">Actions</TableHead>
@@ -311,12 +424,19 @@ const handleAddUser = async (e: React.FormEvent<HTMLFormElement>) => {
                     <TableCell className="font-medium">{user.username}</TableCell>
                     <TableCell>
                       <Badge variant={getRoleBadgeVariant(user.role)}>
-                        {user.role === "admin" ? "Administrator" : "Team Member"}
+                        {ROLE_LABELS[user.role]}
                       </Badge>
                     </TableCell>
+                    <TableCell>
+                      {user.team_id ? teamNames[user.team_id] : <span className="text-muted-foreground">—</span>}
+                    </TableCell>
                     <TableCell>{new Date(user.created_at).toLocaleDateString()}</TableCell>
                     <TableCell>
-                      <span className="text-xs text-muted-foreground">Only shown at creation</span>
+                      {user.must_change_password ? (
+                        <Badge variant="outline">Temporary</Badge>
+                      ) : (
+                        <span className="text-xs text-muted-foreground">Set by user</span>
+                      )}
                     </TableCell>
                     <TableCell className="text-right">
                       <div className="flex gap-2 justify-end">
@@ -330,6 +450,16 @@ const handleAddUser = async (e: React.FormEvent<HTMLFormElement>) => {
                         >
                           <Edit className="h-4 w-4" />
                         </Button>
+                        {user.user_id !== session?.user.id && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleResetPassword(user)}
+                            title="Reset password"
+                          >
+                            <KeyRound className="h-4 w-4" />
+                          </Button>
+                        )}
                         <Button
                           size="sm"
                           variant="outline"
@@ -347,6 +477,51 @@ const handleAddUser = async (e: React.FormEvent<HTMLFormElement>) => {
         </CardContent>
       </Card>
 
+      {/* Reset Password Result Dialog */}
+      <Dialog open={!!resetCreds} onOpenChange={(open) => !open && setResetCreds(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Password Reset</DialogTitle>
+            <DialogDescription>This temporary password is only shown once</DialogDescription>
+          </DialogHeader>
+          {resetCreds && (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between p-2 rounded bg-muted">
+                <div>
+                  <div className="text-muted-foreground text-xs">Login Username:</div>
+                  <div className="font-mono font-medium">{resetCreds.username}</div>
+                </div>
+              </div>
+              <div className="flex items-center justify-between p-2 rounded bg-muted">
+                <div>
+                  <div className="text-muted-foreground text-xs">Temporary Password:</div>
+                  <div className="font-mono font-medium">{resetCreds.password}</div>
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    navigator.clipboard.writeText(resetCreds.password);
+                    toast({ title: "Copied!", description: "Password copied to clipboard" });
+                  }}
+                >
+                  Copy
+                </Button>
+              </div>
+              <div className="text-xs text-muted-foreground bg-muted p-2 rounded">
+                <strong>Important:</strong> The user will be asked to choose a new password the next time they log in.
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button type="button" onClick={() => setResetCreds(null)}>
+              Done
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Edit User Dialog */}
       <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
         <DialogContent>
@@ -374,10 +549,27 @@ const handleAddUser = async (e: React.FormEvent<HTMLFormElement>) => {
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="team">Team Member</SelectItem>
+                      <SelectItem value="staff">Desk Staff</SelectItem>
                       <SelectItem value="admin">Administrator</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-team">Team</Label>
+                  <Select name="team_id" defaultValue={selectedUser.team_id ?? NO_TEAM}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_TEAM}>No team</SelectItem>
+                      {teams.map((team) => (
+                        <SelectItem key={team.id} value={team.id}>
+                          {team.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
               </div>
               <DialogFooter className="mt-6">
                 <Button type="button" variant="outline" onClick={() => setIsEditDialogOpen(false)}>
@@ -5,19 +5,27 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { ClipboardList, User } from "lucide-react";
+import { ClipboardList, Users } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { getAllowedStatuses, STATUS_LABELS } from "@/lib/inventory-status";
+import { effectiveCheckoutLimit, loadEventLimits } from "@/lib/events";
+import { EMPTY_RESERVATION_FILTERS, matchesReservationFilters, type ReservationFilters } from "@/lib/reservation-filters";
 import ReservationExport from "./ReservationExport";
+import ReservationFilterBar from "./ReservationFilterBar";
+import WorkbookExport from "./WorkbookExport";
 
-interface UserProfile {
+interface Team {
   id: string;
-  username: string;
-  role: string;
+  name: string;
+  profiles: {
+    username: string;
+  }[];
 }
 
 interface Reservation {
   id: string;
+  team_id: string | null;
   scanned_at: string;
   status: string;
   notes: string | null;
@@ -25,13 +33,31 @@ interface Reservation {
   parts: {
     name: string;
     description: string | null;
+    category_id: number;
+    categories: {
+      name: string;
+      checkout_limit: number | null;
+    };
   };
+  profiles: {
+    username: string;
+  } | null;
+  teams: {
+    name: string;
+  } | null;
 }
 
-export default function UserReservations() {
-  const [users, setUsers] = useState<UserProfile[]>([]);
-  const [selectedUserId, setSelectedUserId] = useState<string>("");
+interface UserReservationsProps {
+  eventId: string | null;
+}
+
+export default function UserReservations({ eventId }: UserReservationsProps) {
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [selectedTeamId, setSelectedTeamId] = useState<string>("");
   const [reservations, setReservations] = useState<Reservation[]>([]);
+  const [eventLimits, setEventLimits] = useState<Record<number, number>>({});
+  // The team picker above the list stands in for the team filter
+  const [filters, setFilters] = useState<ReservationFilters>(EMPTY_RESERVATION_FILTERS);
   const [isLoading, setIsLoading] = useState(false);
   const [editingReservation, setEditingReservation] = useState<string | null>(null);
   const [editStatus, setEditStatus] = useState<string>("");
@@ -39,8 +65,6 @@ export default function UserReservations() {
   const { toast } = useToast();
 
   useEffect(() => {
-    loadUsers();
-
     // Real-time updates for reservations
     const reservationsChannel = supabase
       .channel('admin-reservations')
@@ -53,8 +77,8 @@ export default function UserReservations() {
         },
         () => {
           console.log('Reservations updated');
-          if (selectedUserId) {
-            loadReservations(selectedUserId);
+          if (selectedTeamId) {
+            loadReservations(selectedTeamId);
           }
         }
       )
@@ -66,52 +90,80 @@ export default function UserReservations() {
   }, []);
 
   useEffect(() => {
-    if (selectedUserId) {
-      loadReservations(selectedUserId);
+    loadTeams();
+  }, [eventId]);
+
+  useEffect(() => {
+    if (selectedTeamId) {
+      loadReservations(selectedTeamId);
     }
-  }, [selectedUserId]);
+  }, [selectedTeamId, eventId]);
 
-  const loadUsers = async () => {
+  // Only teams on the selected event's roster are listed
+  const loadTeams = async () => {
     try {
-      const { data, error } = await supabase
-        .from("profiles")
-        .select("id, username, role")
-        .eq("role", "team")
-        .order("username");
+      const [teamsResult, limits] = await Promise.all([
+        eventId
+          ? supabase
+              .from("teams")
+              .select("id, name, profiles (username), event_teams!inner (event_id)")
+              .eq("event_teams.event_id", eventId)
+              .order("name")
+          : supabase.from("teams").select("id, name, profiles (username)").order("name"),
+        loadEventLimits(eventId),
+      ]);
 
-      if (error) throw error;
-      setUsers(data || []);
-      
-      if (data && data.length > 0) {
-        setSelectedUserId(data[0].id);
-      }
+      if (teamsResult.error) throw teamsResult.error;
+      const data = teamsResult.data || [];
+      setTeams(data);
+      setEventLimits(limits);
+
+      setSelectedTeamId((current) =>
+        data.some((team) => team.id === current) ? current : data[0]?.id ?? ""
+      );
+      if (data.length === 0) setReservations([]);
     } catch (error: any) {
       toast({
-        title: "Error loading users",
+        title: "Error loading teams",
         description: error.message,
         variant: "destructive",
       });
     }
   };
 
-  const loadReservations = async (userId: string) => {
+  const loadReservations = async (teamId: string) => {
     setIsLoading(true);
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from("inventory_tracking")
         .select(`
           id,
+          team_id,
           scanned_at,
           status,
           notes,
           admin_remarks,
           parts (
             name,
-            description
+            description,
+            category_id,
+            categories (
+              name,
+              checkout_limit
+            )
+          ),
+          profiles (
+            username
+          ),
+          teams (
+            name
           )
         `)
-        .eq("team_user_id", userId)
+        .eq("team_id", teamId)
         .order("scanned_at", { ascending: false });
+      if (eventId) query = query.eq("event_id", eventId);
+
+      const { data, error } = await query;
 
       if (error) throw error;
       setReservations(data || []);
@@ -144,8 +196,8 @@ export default function UserReservations() {
       });
 
       setEditingReservation(null);
-      if (selectedUserId) {
-        loadReservations(selectedUserId);
+      if (selectedTeamId) {
+        loadReservations(selectedTeamId);
       }
     } catch (error: any) {
       toast({
@@ -174,53 +226,108 @@ export default function UserReservations() {
         return "destructive";
       case "damaged":
         return "destructive";
+      case "cancelled":
+        return "outline";
       default:
         return "outline";
     }
   };
 
-  const selectedUser = users.find((u) => u.id === selectedUserId);
+  const selectedTeam = teams.find((t) => t.id === selectedTeamId);
+  const filteredReservations = reservations.filter((reservation) => matchesReservationFilters(reservation, filters));
+  const reservationCategories = Array.from(
+    new Map(
+      reservations.map((reservation) => [
+        reservation.parts.category_id,
+        { id: reservation.parts.category_id, name: reservation.parts.categories.name },
+      ])
+    ).values()
+  ).sort((a, b) => a.name.localeCompare(b.name));
+
+  // What the team holds against each category's checkout limit
+  const heldByCategory = Array.from(
+    reservations
+      .filter((reservation) => ["reserved", "issued"].includes(reservation.status))
+      .reduce((held, reservation) => {
+        const entry = held.get(reservation.parts.category_id) || {
+          name: reservation.parts.categories.name,
+          limit: effectiveCheckoutLimit(
+            eventLimits,
+            reservation.parts.category_id,
+            reservation.parts.categories.checkout_limit
+          ),
+          count: 0,
+        };
+        entry.count += 1;
+        return held.set(reservation.parts.category_id, entry);
+      }, new Map<number, { name: string; limit: number; count: number }>())
+      .values()
+  ).sort((a, b) => a.name.localeCompare(b.name));
 
   return (
     <Card>
       <CardHeader>
         <div className="flex items-center justify-between">
           <div>
-            <CardTitle>User Reservations</CardTitle>
-            <CardDescription>View checkout history for each team member</CardDescription>
+            <CardTitle>Team Reservations</CardTitle>
+            <CardDescription>View checkout history for each team and who placed each reservation</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <WorkbookExport eventId={eventId} />
+            <ReservationExport eventId={eventId} filters={{ ...filters, teamId: selectedTeamId || null }} />
           </div>
-          <ReservationExport />
         </div>
       </CardHeader>
       <CardContent className="space-y-4">
         <div className="flex items-center gap-4">
-          <label className="text-sm font-medium">Select User:</label>
-          <Select value={selectedUserId} onValueChange={setSelectedUserId}>
+          <label className="text-sm font-medium">Select Team:</label>
+          <Select value={selectedTeamId} onValueChange={setSelectedTeamId}>
             <SelectTrigger className="w-[250px]">
-              <SelectValue placeholder="Select a user" />
+              <SelectValue placeholder="Select a team" />
             </SelectTrigger>
             <SelectContent>
-              {users.map((user) => (
-                <SelectItem key={user.id} value={user.id}>
+              {teams.map((team) => (
+                <SelectItem key={team.id} value={team.id}>
                   <div className="flex items-center gap-2">
-                    <User className="h-4 w-4" />
-                    {user.username}
+                    <Users className="h-4 w-4" />
+                    {team.name}
                   </div>
                 </SelectItem>
               ))}
             </SelectContent>
           </Select>
+          {selectedTeam && (
+            <span className="text-sm text-muted-foreground">
+              Members: {selectedTeam.profiles.map((member) => member.username).join(", ") || "none"}
+            </span>
+          )}
         </div>
 
+        {heldByCategory.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {heldByCategory.map((entry) => (
+              <Badge key={entry.name} variant={entry.count >= entry.limit ? "destructive" : "secondary"}>
+                {entry.name}: {entry.count}/{entry.limit} held
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        <ReservationFilterBar filters={filters} onChange={setFilters} categories={reservationCategories} />
+
         {isLoading ? (
           <div className="text-center py-8">
             <p className="text-muted-foreground">Loading reservations...</p>
           </div>
-        ) : reservations.length === 0 ? (
+        ) : filteredReservations.length === 0 ? (
           <div className="text-center py-8">
             <ClipboardList className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
             <p className="text-muted-foreground">
-              {selectedUser ? `${selectedUser.username} has no reservations yet.` : "No reservations found."}
+              {reservations.length > 0
+                ? "No reservations match the current filters."
+                : selectedTeam
+                  ? `${selectedTeam.name} has no reservations yet.`
+                  : "No reservations found."}
             </p>
           </div>
         ) : (
@@ -229,6 +336,7 @@ export default function UserReservations() {
               <TableRow>
                 <TableHead>Part Name</TableHead>
                 <TableHead>Description</TableHead>
+                <TableHead>Placed By</TableHead>
                 <TableHead>Status</TableHead>
                 <TableHead>Date</TableHead>
                 <TableHead>Notes</TableHead>
@@ -237,12 +345,13 @@ export default function UserReservations() {
               </TableRow>
             </TableHeader>
             <TableBody>
-              {reservations.map((reservation) => (
+              {filteredReservations.map((reservation) => (
                 <TableRow key={reservation.id}>
                   <TableCell className="font-medium">{reservation.parts.name}</TableCell>
                   <TableCell className="text-muted-foreground">
                     {reservation.parts.description || "—"}
                   </TableCell>
+                  <TableCell>{reservation.profiles?.username || "Deleted User"}</TableCell>
                   <TableCell>
                     {editingReservation === reservation.id ? (
                       <Select value={editStatus} onValueChange={setEditStatus}>
@@ -250,11 +359,11 @@ export default function UserReservations() {
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="reserved">Reserved</SelectItem>
-                          <SelectItem value="issued">Issued</SelectItem>
-                          <SelectItem value="returned">Returned</SelectItem>
-                          <SelectItem value="lost">Lost</SelectItem>
-                          <SelectItem value="damaged">Damaged</SelectItem>
+                          {getAllowedStatuses(reservation.status).map((status) => (
+                            <SelectItem key={status} value={status}>
+                              {STATUS_LABELS[status]}
+                            </SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
                     ) : (
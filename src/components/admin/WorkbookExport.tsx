@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { FileSpreadsheet } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { loadEventLimits } from "@/lib/events";
+import { STATUS_LABELS, type InventoryStatus } from "@/lib/inventory-status";
+import { fetchAllRows } from "@/lib/paging";
+import { DATE_TIME_FORMAT, downloadWorkbook } from "@/lib/xlsx";
+
+interface WorkbookExportProps {
+  eventId: string | null;
+}
+
+const toDate = (value: string | null) => (value ? new Date(value) : null);
+
+export default function WorkbookExport({ eventId }: WorkbookExportProps) {
+  const [isExporting, setIsExporting] = useState(false);
+  const { toast } = useToast();
+
+  const exportToXLSX = async () => {
+    setIsExporting(true);
+    try {
+      const reservationsPage = (from: number, to: number) => {
+        let query = supabase
+          .from("inventory_tracking")
+          .select(`
+            id,
+            team_id,
+            status,
+            scanned_at,
+            expires_at,
+            due_at,
+            notes,
+            admin_remarks,
+            parts (
+              name,
+              categories (
+                name
+              )
+            ),
+            profiles (
+              username
+            ),
+            teams (
+              name
+            ),
+            events (
+              name
+            )
+          `)
+          .order("scanned_at", { ascending: false })
+          .order("id");
+        if (eventId) query = query.eq("event_id", eventId);
+        return query.range(from, to);
+      };
+
+      // Every sheet is read in pages so large tables aren't cut off at the response limit
+      const [categories, parts, reservations, teams, roster, eventLimits] = await Promise.all([
+        fetchAllRows((from, to) => supabase.from("categories").select("*").order("name").order("id").range(from, to)),
+        fetchAllRows((from, to) =>
+          supabase
+            .from("parts")
+            .select("name, description, quantity, barcode, image_url, categories (name)")
+            .order("name")
+            .order("id")
+            .range(from, to),
+        ),
+        fetchAllRows(reservationsPage),
+        fetchAllRows((from, to) =>
+          supabase.from("teams").select("id, name, created_at, profiles (id)").order("name").order("id").range(from, to),
+        ),
+        eventId
+          ? fetchAllRows((from, to) =>
+              supabase.from("event_teams").select("team_id").eq("event_id", eventId).order("team_id").range(from, to),
+            )
+          : Promise.resolve([] as { team_id: string }[]),
+        loadEventLimits(eventId),
+      ]);
+
+      const rostered = new Set(roster.map((row) => row.team_id));
+      const countFor = (teamId: string, status: string) =>
+        reservations.filter((reservation) => reservation.team_id === teamId && reservation.status === status).length;
+
+      // Categories and Parts use the import column names so the sheets can be edited and imported back
+      await downloadWorkbook(`robothon_${new Date().toISOString().split("T")[0]}.xlsx`, [
+        {
+          name: "Categories",
+          columns: [
+            { header: "name", key: "name", width: 24 },
+            { header: "description", key: "description", width: 40 },
+            { header: "checkout_limit", key: "checkout_limit" },
+            { header: "event_checkout_limit", key: "event_checkout_limit" },
+            { header: "reservation_ttl_minutes", key: "reservation_ttl_minutes" },
+            { header: "loan_period_hours", key: "loan_period_hours" },
+            { header: "created_at", key: "created_at", width: 18, numFmt: DATE_TIME_FORMAT },
+          ],
+          rows: categories.map((category) => ({
+            name: category.name,
+            description: category.description,
+            checkout_limit: category.checkout_limit,
+            event_checkout_limit: eventLimits[category.id] ?? null,
+            reservation_ttl_minutes: category.reservation_ttl_minutes,
+            loan_period_hours: category.loan_period_hours,
+            created_at: toDate(category.created_at),
+          })),
+        },
+        {
+          name: "Parts",
+          columns: [
+            { header: "category", key: "category", width: 20 },
+            { header: "name", key: "name", width: 30 },
+            { header: "description", key: "description", width: 40 },
+            { header: "quantity", key: "quantity" },
+            { header: "barcode", key: "barcode", width: 18 },
+            { header: "image_url", key: "image_url", width: 40 },
+          ],
+          rows: parts.map((part) => ({
+            category: part.categories?.name ?? null,
+            name: part.name,
+            description: part.description,
+            quantity: part.quantity,
+            barcode: part.barcode,
+            image_url: part.image_url,
+          })),
+        },
+        {
+          name: "Reservations",
+          columns: [
+            { header: "Reservation ID", key: "id", width: 38 },
+            { header: "Event", key: "event", width: 20 },
+            { header: "Team", key: "team", width: 20 },
+            { header: "Placed By", key: "placed_by", width: 16 },
+            { header: "Part Name", key: "part", width: 30 },
+            { header: "Category", key: "category", width: 20 },
+            { header: "Status", key: "status" },
+            { header: "Reserved At", key: "scanned_at", width: 18, numFmt: DATE_TIME_FORMAT },
+            { header: "Pickup By", key: "expires_at", width: 18, numFmt: DATE_TIME_FORMAT },
+            { header: "Due Back", key: "due_at", width: 18, numFmt: DATE_TIME_FORMAT },
+            { header: "Notes", key: "notes", width: 30 },
+            { header: "Admin Remarks", key: "admin_remarks", width: 30 },
+          ],
+          rows: reservations.map((reservation) => ({
+            id: reservation.id,
+            event: reservation.events?.name ?? null,
+            team: reservation.teams?.name ?? null,
+            placed_by: reservation.profiles?.username ?? null,
+            part: reservation.parts?.name ?? null,
+            category: reservation.parts?.categories?.name ?? null,
+            status: STATUS_LABELS[reservation.status as InventoryStatus] ?? reservation.status,
+            scanned_at: toDate(reservation.scanned_at),
+            expires_at: toDate(reservation.expires_at),
+            due_at: toDate(reservation.due_at),
+            notes: reservation.notes,
+            admin_remarks: reservation.admin_remarks,
+          })),
+        },
+        {
+          name: "Teams",
+          columns: [
+            { header: "Team", key: "name", width: 24 },
+            { header: "Members", key: "members" },
+            { header: "On Event Roster", key: "rostered" },
+            { header: "Reserved", key: "reserved" },
+            { header: "Issued", key: "issued" },
+            { header: "Returned", key: "returned" },
+            { header: "Created", key: "created_at", width: 18, numFmt: DATE_TIME_FORMAT },
+          ],
+          rows: teams.map((team) => ({
+            name: team.name,
+            members: team.profiles.length,
+            rostered: eventId ? (rostered.has(team.id) ? "Yes" : "No") : null,
+            reserved: countFor(team.id, "reserved"),
+            issued: countFor(team.id, "issued"),
+            returned: countFor(team.id, "returned"),
+            created_at: toDate(team.created_at),
+          })),
+        },
+      ]);
+
+      toast({
+        title: "Export successful",
+        description: `Exported ${categories.length} categories, ${parts.length} parts, ${reservations.length} reservations and ${teams.length} teams`,
+      });
+    } catch (error: any) {
+      toast({
+        title: "Export failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Button onClick={exportToXLSX} disabled={isExporting} variant="outline" className="flex items-center gap-2">
+      <FileSpreadsheet className="h-4 w-4" />
+      {isExporting ? "Exporting..." : "Export XLSX"}
+    </Button>
+  );
+}
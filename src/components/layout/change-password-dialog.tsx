@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { supabase } from "@/integrations/supabase/client";
+import { readFunctionError } from "@/lib/functions";
+
+interface ChangePasswordDialogProps {
+  open: boolean;
+  onOpenChange?: (open: boolean) => void;
+  // A forced change cannot be dismissed; the only way out is a new password or logging out
+  forced?: boolean;
+}
+
+export function ChangePasswordDialog({ open, onOpenChange, forced = false }: ChangePasswordDialogProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const { refreshProfile, signOut } = useAuth();
+  const { toast } = useToast();
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+
+    const formData = new FormData(form);
+    const currentPassword = formData.get("current_password") as string;
+    const newPassword = formData.get("new_password") as string;
+    const confirmPassword = formData.get("confirm_password") as string;
+
+    if (newPassword !== confirmPassword) {
+      toast({
+        title: "Passwords do not match",
+        description: "Please enter the same new password twice.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const { error } = await supabase.functions.invoke("change-password", {
+        body: { current_password: currentPassword, new_password: newPassword },
+      });
+
+      if (error) {
+        const body = await readFunctionError(error);
+        throw new Error(body?.error || error.message);
+      }
+
+      toast({
+        title: "Password changed",
+        description: "Use your new password next time you sign in.",
+      });
+
+      form.reset();
+      await refreshProfile();
+      onOpenChange?.(false);
+    } catch (error: any) {
+      toast({
+        title: "Could not change password",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={forced ? undefined : onOpenChange}>
+      <DialogContent
+        onEscapeKeyDown={forced ? (e) => e.preventDefault() : undefined}
+        onInteractOutside={forced ? (e) => e.preventDefault() : undefined}
+        className={forced ? "[&>button]:hidden" : undefined}
+      >
+        <DialogHeader>
+          <DialogTitle>{forced ? "Choose a New Password" : "Change Password"}</DialogTitle>
+          <DialogDescription>
+            {forced
+              ? "You signed in with a temporary password. Set your own password to continue."
+              : "Enter your current password and choose a new one."}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="current_password">{forced ? "Temporary Password" : "Current Password"}</Label>
+              <Input id="current_password" name="current_password" type="password" required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new_password">New Password</Label>
+              <Input id="new_password" name="new_password" type="password" minLength={8} placeholder="min 8 characters" required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="confirm_password">Confirm New Password</Label>
+              <Input id="confirm_password" name="confirm_password" type="password" minLength={8} required />
+            </div>
+          </div>
+          <DialogFooter className="mt-6">
+            {forced ? (
+              <Button type="button" variant="outline" onClick={signOut}>
+                Log Out
+              </Button>
+            ) : (
+              <Button type="button" variant="outline" onClick={() => onOpenChange?.(false)}>
+                Cancel
+              </Button>
+            )}
+            <Button type="submit" disabled={isLoading}>
+              {isLoading ? "Saving..." : "Change Password"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
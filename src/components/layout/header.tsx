@@ -1,6 +1,8 @@
+import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { useLocation } from "react-router-dom";
-import { Package, LogOut, Settings, Users } from "lucide-react";
+import { Package, LogOut, Settings, Users, KeyRound } from "lucide-react";
+import { ChangePasswordDialog } from "./change-password-dialog";
 
 interface HeaderProps {
   userRole?: "team" | "admin";
@@ -10,6 +12,7 @@ interface HeaderProps {
 
 export function Header({ userRole = "team", teamName, onLogout }: HeaderProps) {
   const location = useLocation();
+  const [isPasswordDialogOpen, setIsPasswordDialogOpen] = useState(false);
   
   return (
     <header className="sticky top-0 z-50 w-full border-b border-border bg-card/95 backdrop-blur supports-[backdrop-filter]:bg-card/60">
@@ -36,11 +39,17 @@ export function Header({ userRole = "team", teamName, onLogout }: HeaderProps) {
             </Button>
           )}
           
+          <Button variant="ghost" size="sm" onClick={() => setIsPasswordDialogOpen(true)}>
+            <KeyRound className="h-4 w-4 mr-2" />
+            Change Password
+          </Button>
+
           <Button variant="ghost" size="sm" onClick={onLogout}>
             <LogOut className="h-4 w-4 mr-2" />
             Logout
           </Button>
         </div>
+        <ChangePasswordDialog open={isPasswordDialogOpen} onOpenChange={setIsPasswordDialogOpen} />
       </div>
     </header>
   );
@@ -0,0 +1,39 @@
+import { Navigate, useLocation } from "react-router-dom";
+import { useAuth, homePathForRole, type UserRole } from "@/hooks/use-auth";
+import { ChangePasswordDialog } from "./change-password-dialog";
+
+interface RequireRoleProps {
+  role: UserRole | UserRole[];
+  children: React.ReactNode;
+}
+
+export function RequireRole({ role, children }: RequireRoleProps) {
+  const { session, profile, loading } = useAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  if (!session || !profile) {
+    return <Navigate to="/login" replace state={{ from: location.pathname }} />;
+  }
+
+  if (!(Array.isArray(role) ? role : [role]).includes(profile.role)) {
+    return <Navigate to={homePathForRole(profile.role)} replace />;
+  }
+
+  if (profile.must_change_password) {
+    return (
+      <div className="min-h-screen bg-gradient-hero">
+        <ChangePasswordDialog open forced />
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+}
@@ -0,0 +1,105 @@
+import { createContext, useContext, useEffect, useState } from "react";
+import type { Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type Profile = Tables<"profiles">;
+export type UserRole = Profile["role"];
+
+interface AuthContextValue {
+  session: Session | null;
+  profile: Profile | null;
+  // True until the initial session, and the profile that goes with it, are known
+  loading: boolean;
+  refreshProfile: () => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: "Administrator",
+  staff: "Desk Staff",
+  team: "Team Member",
+};
+
+export function homePathForRole(role: UserRole) {
+  if (role === "admin") return "/admin";
+  // Desk staff only have the pickup and return stations
+  if (role === "staff") return "/admin/inventory/pickup";
+  return "/team";
+}
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [session, setSession] = useState<Session | null>(null);
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let currentUserId: string | null = null;
+
+    const loadProfile = async (userId: string) => {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("*")
+        .eq("user_id", userId)
+        .maybeSingle();
+
+      if (error) console.error("Error fetching profile:", error);
+      if (currentUserId !== userId) return;
+      setProfile(data);
+      setLoading(false);
+    };
+
+    // Fires once with the stored session on startup, then on every change
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, newSession) => {
+      setSession(newSession);
+
+      const userId = newSession?.user.id ?? null;
+      if (userId === currentUserId) return;
+      currentUserId = userId;
+
+      if (userId) {
+        setLoading(true);
+        // Supabase warns against awaiting client calls inside this callback
+        setTimeout(() => loadProfile(userId), 0);
+      } else {
+        setProfile(null);
+        setLoading(false);
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const refreshProfile = async () => {
+    if (!session) return;
+
+    const { data, error } = await supabase
+      .from("profiles")
+      .select("*")
+      .eq("user_id", session.user.id)
+      .maybeSingle();
+
+    if (error) throw error;
+    setProfile(data);
+  };
+
+  const signOut = async () => {
+    await supabase.auth.signOut();
+  };
+
+  return (
+    <AuthContext.Provider value={{ session, profile, loading, refreshProfile, signOut }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
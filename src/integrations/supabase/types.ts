@@ -14,13 +14,69 @@ export type Database = {
   }
   public: {
     Tables: {
+      app_settings: {
+        Row: {
+          cancellation_window_minutes: number | null
+          id: boolean
+          updated_at: string
+        }
+        Insert: {
+          cancellation_window_minutes?: number | null
+          id?: boolean
+          updated_at?: string
+        }
+        Update: {
+          cancellation_window_minutes?: number | null
+          id?: boolean
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          actor_username: string | null
+          after: Json | null
+          before: Json | null
+          created_at: string
+          entity_id: string | null
+          entity_type: string
+          id: string
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          actor_username?: string | null
+          after?: Json | null
+          before?: Json | null
+          created_at?: string
+          entity_id?: string | null
+          entity_type: string
+          id?: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          actor_username?: string | null
+          after?: Json | null
+          before?: Json | null
+          created_at?: string
+          entity_id?: string | null
+          entity_type?: string
+          id?: string
+        }
+        Relationships: []
+      }
       categories: {
         Row: {
           checkout_limit: number | null
           created_at: string
           description: string | null
           id: number
+          loan_period_hours: number | null
           name: string
+          reservation_ttl_minutes: number | null
           updated_at: string
         }
         Insert: {
@@ -28,7 +84,9 @@ export type Database = {
           created_at?: string
           description?: string | null
           id?: number
+          loan_period_hours?: number | null
           name: string
+          reservation_ttl_minutes?: number | null
           updated_at?: string
         }
         Update: {
@@ -36,7 +94,105 @@ export type Database = {
           created_at?: string
           description?: string | null
           id?: number
+          loan_period_hours?: number | null
           name?: string
+          reservation_ttl_minutes?: number | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      event_category_limits: {
+        Row: {
+          category_id: number
+          checkout_limit: number
+          event_id: string
+        }
+        Insert: {
+          category_id: number
+          checkout_limit: number
+          event_id: string
+        }
+        Update: {
+          category_id?: number
+          checkout_limit?: number
+          event_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_category_limits_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_category_limits_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      event_teams: {
+        Row: {
+          created_at: string
+          event_id: string
+          team_id: string
+        }
+        Insert: {
+          created_at?: string
+          event_id: string
+          team_id: string
+        }
+        Update: {
+          created_at?: string
+          event_id?: string
+          team_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_teams_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_teams_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      events: {
+        Row: {
+          created_at: string
+          ends_on: string | null
+          id: string
+          is_active: boolean
+          name: string
+          starts_on: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          ends_on?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          starts_on?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          ends_on?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          starts_on?: string | null
           updated_at?: string
         }
         Relationships: []
@@ -44,32 +200,54 @@ export type Database = {
       inventory_tracking: {
         Row: {
           admin_remarks: string | null
+          due_at: string | null
+          event_id: string | null
+          expires_at: string | null
           id: string
+          issued_at: string | null
           notes: string | null
           part_id: number | null
           scanned_at: string
           status: string
+          team_id: string | null
           team_user_id: string | null
         }
         Insert: {
           admin_remarks?: string | null
+          due_at?: string | null
+          event_id?: string | null
+          expires_at?: string | null
           id?: string
+          issued_at?: string | null
           notes?: string | null
           part_id?: number | null
           scanned_at?: string
           status: string
+          team_id?: string | null
           team_user_id?: string | null
         }
         Update: {
           admin_remarks?: string | null
+          due_at?: string | null
+          event_id?: string | null
+          expires_at?: string | null
           id?: string
+          issued_at?: string | null
           notes?: string | null
           part_id?: number | null
           scanned_at?: string
           status?: string
+          team_id?: string | null
           team_user_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "inventory_tracking_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "inventory_tracking_part_id_fkey"
             columns: ["part_id"]
@@ -77,6 +255,13 @@ export type Database = {
             referencedRelation: "parts"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "inventory_tracking_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "inventory_tracking_team_user_id_fkey"
             columns: ["team_user_id"]
@@ -134,7 +319,9 @@ export type Database = {
         Row: {
           created_at: string
           id: string
+          must_change_password: boolean
           role: Database["public"]["Enums"]["user_role"]
+          team_id: string | null
           updated_at: string
           user_id: string
           username: string
@@ -142,7 +329,9 @@ export type Database = {
         Insert: {
           created_at?: string
           id?: string
+          must_change_password?: boolean
           role?: Database["public"]["Enums"]["user_role"]
+          team_id?: string | null
           updated_at?: string
           user_id: string
           username: string
@@ -150,11 +339,239 @@ export type Database = {
         Update: {
           created_at?: string
           id?: string
+          must_change_password?: boolean
           role?: Database["public"]["Enums"]["user_role"]
+          team_id?: string | null
           updated_at?: string
           user_id?: string
           username?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "profiles_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_movements: {
+        Row: {
+          balance_after: number | null
+          created_at: string
+          created_by: string | null
+          delta: number
+          id: string
+          part_id: number | null
+          reason: string
+          stocktake_id: string | null
+          tracking_id: string | null
+        }
+        Insert: {
+          balance_after?: number | null
+          created_at?: string
+          created_by?: string | null
+          delta: number
+          id?: string
+          part_id?: number | null
+          reason: string
+          stocktake_id?: string | null
+          tracking_id?: string | null
+        }
+        Update: {
+          balance_after?: number | null
+          created_at?: string
+          created_by?: string | null
+          delta?: number
+          id?: string
+          part_id?: number | null
+          reason?: string
+          stocktake_id?: string | null
+          tracking_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_movements_part_id_fkey"
+            columns: ["part_id"]
+            isOneToOne: false
+            referencedRelation: "parts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_stocktake_id_fkey"
+            columns: ["stocktake_id"]
+            isOneToOne: false
+            referencedRelation: "stocktakes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_tracking_id_fkey"
+            columns: ["tracking_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_tracking"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_write_offs: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          notes: string | null
+          part_id: number | null
+          quantity: number
+          reason: string
+          team_user_id: string | null
+          tracking_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          notes?: string | null
+          part_id?: number | null
+          quantity?: number
+          reason: string
+          team_user_id?: string | null
+          tracking_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          notes?: string | null
+          part_id?: number | null
+          quantity?: number
+          reason?: string
+          team_user_id?: string | null
+          tracking_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_write_offs_part_id_fkey"
+            columns: ["part_id"]
+            isOneToOne: false
+            referencedRelation: "parts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_write_offs_team_user_id_fkey"
+            columns: ["team_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_write_offs_tracking_id_fkey"
+            columns: ["tracking_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_tracking"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stocktake_counts: {
+        Row: {
+          adjustment: number | null
+          counted: number
+          counted_by: string | null
+          expected: number | null
+          id: string
+          part_id: number
+          stocktake_id: string
+          updated_at: string
+        }
+        Insert: {
+          adjustment?: number | null
+          counted?: number
+          counted_by?: string | null
+          expected?: number | null
+          id?: string
+          part_id: number
+          stocktake_id: string
+          updated_at?: string
+        }
+        Update: {
+          adjustment?: number | null
+          counted?: number
+          counted_by?: string | null
+          expected?: number | null
+          id?: string
+          part_id?: number
+          stocktake_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stocktake_counts_part_id_fkey"
+            columns: ["part_id"]
+            isOneToOne: false
+            referencedRelation: "parts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stocktake_counts_stocktake_id_fkey"
+            columns: ["stocktake_id"]
+            isOneToOne: false
+            referencedRelation: "stocktakes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stocktakes: {
+        Row: {
+          category_ids: number[]
+          committed_at: string | null
+          committed_by: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          notes: string | null
+          status: string
+        }
+        Insert: {
+          category_ids: number[]
+          committed_at?: string | null
+          committed_by?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          notes?: string | null
+          status?: string
+        }
+        Update: {
+          category_ids?: number[]
+          committed_at?: string | null
+          committed_by?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          notes?: string | null
+          status?: string
+        }
+        Relationships: []
+      }
+      teams: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+        }
         Relationships: []
       }
     }
@@ -162,17 +579,101 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      activate_event: {
+        Args: { p_event_id?: string }
+        Returns: undefined
+      }
+      cancel_reservation: {
+        Args: { p_tracking_id: string }
+        Returns: undefined
+      }
+      checkout_cart: {
+        Args: {
+          p_enforce_limits?: boolean
+          p_items: Json
+          p_team_profile_id: string
+        }
+        Returns: Json
+      }
+      commit_stocktake: {
+        Args: { p_stocktake_id: string }
+        Returns: Json
+      }
+      current_team_id: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
       get_user_role: {
         Args: { user_uuid: string }
         Returns: Database["public"]["Enums"]["user_role"]
       }
+      import_parts: {
+        Args: { p_dry_run?: boolean; p_rows: Json }
+        Returns: Json
+      }
+      inventory_status_transition_allowed: {
+        Args: { p_from: string; p_to: string }
+        Returns: boolean
+      }
+      is_admin_or_staff: {
+        Args: { user_uuid: string }
+        Returns: boolean
+      }
+      issue_reserved_by_barcode: {
+        Args: { p_barcode: string; p_team_id: string }
+        Returns: Json
+      }
+      issue_reserved_record: {
+        Args: { p_tracking_id: string }
+        Returns: undefined
+      }
+      record_stocktake_scan: {
+        Args: { p_barcode: string; p_quantity?: number; p_stocktake_id: string }
+        Returns: Json
+      }
+      release_expired_reservations: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      restock_part_by_barcode: {
+        Args: {
+          p_barcode: string
+          p_category_id?: number
+          p_quantity?: number
+        }
+        Returns: Json
+      }
+      restore_backup: {
+        Args: { p_archive: Json; p_dry_run?: boolean; p_mode?: string }
+        Returns: Json
+      }
+      restore_backup_table: {
+        Args: { p_overwrite: boolean; p_rows: Json; p_table: string }
+        Returns: Json
+      }
+      return_issued_by_barcode: {
+        Args: {
+          p_barcode: string
+          p_condition?: string
+          p_team_id?: string
+        }
+        Returns: Json
+      }
+      set_stock_movement_context: {
+        Args: {
+          p_reason: string
+          p_stocktake_id?: string
+          p_tracking_id?: string
+        }
+        Returns: undefined
+      }
       transaction_decrement_and_track: {
         Args: { p_part_id: number; p_team_profile_id: string }
         Returns: undefined
       }
     }
     Enums: {
-      user_role: "admin" | "team"
+      user_role: "admin" | "team" | "staff"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -300,7 +801,7 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      user_role: ["admin", "team"],
+      user_role: ["admin", "team", "staff"],
     },
   },
 } as const
@@ -0,0 +1,195 @@
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import { Constants } from "@/integrations/supabase/types";
+import { STATUS_LABELS, type InventoryStatus } from "@/lib/inventory-status";
+import { fetchAllRows } from "@/lib/paging";
+
+// Versioned JSON snapshots of the inventory, written here and replayed by restore_backup()
+
+export const BACKUP_FORMAT = "robothon-inventory-backup";
+export const BACKUP_VERSION = 1;
+
+// Parents before children, the order restore_backup() writes them in
+export const BACKUP_TABLES = [
+  "app_settings",
+  "teams",
+  "events",
+  "categories",
+  "event_teams",
+  "event_category_limits",
+  "parts",
+  "profiles",
+  "inventory_tracking",
+] as const;
+
+export type BackupTable = (typeof BACKUP_TABLES)[number];
+
+export const BACKUP_TABLE_LABELS: Record<BackupTable, string> = {
+  app_settings: "Settings",
+  teams: "Teams",
+  events: "Events",
+  categories: "Categories",
+  event_teams: "Event rosters",
+  event_category_limits: "Event limits",
+  parts: "Parts",
+  profiles: "Users",
+  inventory_tracking: "Reservations",
+};
+
+// Stable order for paging; each table's primary key
+const TABLE_KEYS: Record<BackupTable, string[]> = {
+  app_settings: ["id"],
+  teams: ["id"],
+  events: ["id"],
+  categories: ["id"],
+  event_teams: ["event_id", "team_id"],
+  event_category_limits: ["event_id", "category_id"],
+  parts: ["id"],
+  profiles: ["id"],
+  inventory_tracking: ["id"],
+};
+
+// Profiles only hold usernames, roles and teams. Emails and passwords stay
+// with the login account, which isn't exported.
+const PROFILE_COLUMNS = "id, user_id, username, role, team_id, must_change_password, created_at, updated_at";
+
+const timestamp = z.string().datetime({ offset: true });
+const nullableText = z.string().nullable();
+const wholeNumber = z.number().int();
+
+// Key columns are checked; other columns pass through so archives from a
+// newer schema keep them, and restore_backup() drops any it doesn't know
+const rowSchemas = {
+  app_settings: z
+    .object({ id: z.literal(true), cancellation_window_minutes: wholeNumber.min(0).nullable() })
+    .passthrough(),
+  teams: z.object({ id: z.string().uuid(), name: z.string().min(1) }).passthrough(),
+  events: z
+    .object({ id: z.string().uuid(), name: z.string().min(1), is_active: z.boolean() })
+    .passthrough(),
+  categories: z.object({ id: wholeNumber.positive(), name: z.string().min(1) }).passthrough(),
+  event_teams: z.object({ event_id: z.string().uuid(), team_id: z.string().uuid() }).passthrough(),
+  event_category_limits: z
+    .object({ event_id: z.string().uuid(), category_id: wholeNumber.positive(), checkout_limit: wholeNumber.min(0) })
+    .passthrough(),
+  parts: z
+    .object({
+      id: wholeNumber.positive(),
+      category_id: wholeNumber.positive(),
+      name: z.string().min(1),
+      quantity: wholeNumber.min(0),
+      barcode: nullableText.optional(),
+    })
+    .passthrough(),
+  // Not passthrough: nothing beyond these columns is restored into a profile
+  profiles: z.object({
+    id: z.string().uuid(),
+    user_id: z.string().uuid(),
+    username: z.string().min(1),
+    role: z.enum(Constants.public.Enums.user_role),
+    team_id: z.string().uuid().nullable(),
+    must_change_password: z.boolean().optional(),
+    created_at: timestamp.optional(),
+    updated_at: timestamp.optional(),
+  }),
+  inventory_tracking: z
+    .object({
+      id: z.string().uuid(),
+      part_id: wholeNumber.nullable(),
+      team_user_id: z.string().uuid().nullable(),
+      team_id: z.string().uuid().nullable().optional(),
+      event_id: z.string().uuid().nullable().optional(),
+      status: z.enum(Object.keys(STATUS_LABELS) as [InventoryStatus, ...InventoryStatus[]]),
+      scanned_at: timestamp,
+    })
+    .passthrough(),
+} satisfies Record<BackupTable, z.ZodTypeAny>;
+
+export const backupSchema = z.object({
+  format: z.literal(BACKUP_FORMAT, {
+    errorMap: () => ({ message: "Not a Robothon inventory backup" }),
+  }),
+  version: wholeNumber.positive().max(BACKUP_VERSION, {
+    message: `Made by a newer version of the app; this one reads up to version ${BACKUP_VERSION}`,
+  }),
+  created_at: timestamp,
+  tables: z.object(
+    Object.fromEntries(BACKUP_TABLES.map((table) => [table, z.array(rowSchemas[table]).default([])])) as {
+      [T in BackupTable]: z.ZodDefault<z.ZodArray<(typeof rowSchemas)[T]>>;
+    },
+  ),
+});
+
+export type BackupArchive = z.infer<typeof backupSchema>;
+
+export interface RestoreTableSummary {
+  deleted?: number;
+  inserted: number;
+  updated: number;
+  skipped: number;
+  conflicts: number;
+}
+
+export interface RestoreConflict {
+  table: BackupTable;
+  key: Record<string, string | number>;
+  message: string;
+}
+
+export interface RestoreResult {
+  dry_run: boolean;
+  mode: RestoreMode;
+  tables: Partial<Record<BackupTable, RestoreTableSummary>>;
+  conflicts: RestoreConflict[];
+}
+
+// merge: keep existing rows, add missing ones
+// overwrite: archived rows replace existing ones with the same id
+// replace: clear everything but users first, so the data matches the archive
+export type RestoreMode = "merge" | "overwrite" | "replace";
+
+async function fetchTable(table: BackupTable): Promise<Record<string, unknown>[]> {
+  return fetchAllRows((from, to) => {
+    let query = supabase.from(table).select(table === "profiles" ? PROFILE_COLUMNS : "*");
+    TABLE_KEYS[table].forEach((column) => {
+      query = query.order(column);
+    });
+    return query.range(from, to).returns<Record<string, unknown>[]>();
+  });
+}
+
+export async function createBackup(): Promise<BackupArchive> {
+  const tables = {} as Record<BackupTable, Record<string, unknown>[]>;
+  // One table at a time to keep the load on the database light
+  for (const table of BACKUP_TABLES) {
+    tables[table] = await fetchTable(table);
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    created_at: new Date().toISOString(),
+    tables: tables as BackupArchive["tables"],
+  };
+}
+
+// Parses a backup file, returning either the archive or readable problems
+// such as "tables.parts.3.quantity: Number must be greater than or equal to 0"
+export function parseBackup(text: string): { archive: BackupArchive | null; issues: string[] } {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return { archive: null, issues: ["The file is not valid JSON"] };
+  }
+
+  const result = backupSchema.safeParse(json);
+  if (result.success) return { archive: result.data, issues: [] };
+
+  return {
+    archive: null,
+    issues: result.error.issues.map((issue) =>
+      issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message,
+    ),
+  };
+}
@@ -0,0 +1,8 @@
+// Scanners can prefix a multiplier, e.g. "10*4006381333931" counts ten units
+export function parseMultiplierScan(input: string): { code: string; multiplier: number | null } {
+  const match = input.trim().match(/^(\d{1,4})\s*\*\s*(\S.*)$/);
+  if (!match || parseInt(match[1]) < 1) {
+    return { code: input.trim(), multiplier: null };
+  }
+  return { code: match[2].trim(), multiplier: parseInt(match[1]) };
+}
@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { csvOptional, csvWholeNumber, formatCsvIssue, parseCsv, readCsv, toCsv } from "@/lib/csv";
+
+describe("parseCsv", () => {
+  it("drops a leading byte order mark", () => {
+    const { records } = parseCsv("\ufeffname,quantity\nServo,4");
+
+    expect(records[0].fields).toEqual(["name", "quantity"]);
+  });
+
+  it("splits records on CRLF, LF and CR line endings", () => {
+    const { records, issues } = parseCsv("a,b\r\nc,d\ne,f\rg,h\r\n");
+
+    expect(issues).toEqual([]);
+    expect(records.map((record) => record.fields)).toEqual([
+      ["a", "b"],
+      ["c", "d"],
+      ["e", "f"],
+      ["g", "h"],
+    ]);
+    expect(records.map((record) => record.line)).toEqual([1, 2, 3, 4]);
+  });
+
+  it("keeps line breaks inside quoted fields and numbers later records by their first line", () => {
+    const { records } = parseCsv('name,description\nServo,"9 g\r\nmicro servo"\nMotor,DC');
+
+    expect(records[1]).toEqual({ line: 2, fields: ["Servo", "9 g\r\nmicro servo"] });
+    expect(records[2]).toEqual({ line: 4, fields: ["Motor", "DC"] });
+  });
+
+  it('reads "" inside a quoted field as one quote', () => {
+    const { records } = parseCsv('"A ""quoted"" name","a, b"');
+
+    expect(records[0].fields).toEqual(['A "quoted" name', "a, b"]);
+  });
+
+  it("reports a quote that is never closed on the line it opened", () => {
+    const { records, issues } = parseCsv('name\nServo\n"Motor\nDC');
+
+    expect(records.map((record) => record.fields)).toEqual([["name"], ["Servo"]]);
+    expect(issues).toEqual([{ line: 3, message: "Quoted field is never closed" }]);
+  });
+
+  it("skips blank lines and rows of empty cells", () => {
+    const { records } = parseCsv("a\n\n , \nb");
+
+    expect(records.map((record) => record.fields)).toEqual([["a"], ["b"]]);
+  });
+});
+
+describe("readCsv", () => {
+  const schema = z.object({
+    name: z.string().min(1, "Name is required"),
+    quantity: csvOptional(csvWholeNumber),
+  });
+  const columns = ["name", "quantity"] as const;
+
+  it("matches columns by header name in any order and case", () => {
+    const { rows, issues } = readCsv(" Quantity ,NAME\n4,Servo", schema, { columns, header: "required" });
+
+    expect(issues).toEqual([]);
+    expect(rows).toEqual([
+      { line: 2, values: { name: "Servo", quantity: "4" }, data: { name: "Servo", quantity: 4 }, issues: [] },
+    ]);
+  });
+
+  it("reports required columns missing from the header", () => {
+    const { rows, issues } = readCsv("quantity\n4", schema, {
+      columns,
+      header: "required",
+      requiredColumns: ["name"],
+    });
+
+    expect(rows).toEqual([]);
+    expect(issues).toEqual([{ line: 1, message: "Header row is missing: name" }]);
+  });
+
+  it("reads cells in column order when an optional header is left out", () => {
+    const { rows } = readCsv("Servo,4\nMotor,", schema, { columns, header: "optional" });
+
+    expect(rows.map((row) => row.data)).toEqual([
+      { name: "Servo", quantity: 4 },
+      { name: "Motor", quantity: null },
+    ]);
+  });
+
+  it("treats a first row of column names as the header", () => {
+    const { rows } = readCsv("name,quantity\nServo,4", schema, { columns, header: "optional" });
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0].line).toBe(2);
+  });
+
+  it("reports schema failures with their line and column", () => {
+    const { rows } = readCsv("quantity,name\n4,Servo\nlots,", schema, { columns, header: "required" });
+
+    expect(rows[1].data).toBeNull();
+    expect(rows[1].values).toEqual({ name: "", quantity: "lots" });
+    expect(rows[1].issues).toEqual([
+      { line: 3, column: "name", columnNumber: 2, message: "Name is required" },
+      { line: 3, column: "quantity", columnNumber: 1, message: "Must be a whole number of 0 or more" },
+    ]);
+    expect(rows[1].issues.map((issue) => formatCsvIssue(issue))).toEqual([
+      "Line 3, column 2 (name): Name is required",
+      "Line 3, column 1 (quantity): Must be a whole number of 0 or more",
+    ]);
+    expect(formatCsvIssue(rows[1].issues[0], { withLine: false })).toBe("Column 2 (name): Name is required");
+  });
+});
+
+describe("toCsv", () => {
+  it("quotes only cells that need it and round-trips through parseCsv", () => {
+    const rows = [
+      ["name", "notes"],
+      ['Servo "SG90"', "a, b\nc"],
+      ["Motor", null],
+    ];
+    const text = toCsv(rows);
+
+    expect(text).toBe('name,notes\n"Servo ""SG90""","a, b\nc"\nMotor,');
+    expect(parseCsv(text).records.map((record) => record.fields)).toEqual([
+      ["name", "notes"],
+      ['Servo "SG90"', "a, b\nc"],
+      ["Motor", ""],
+    ]);
+  });
+});
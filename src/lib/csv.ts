@@ -0,0 +1,189 @@
+import { z } from "zod";
+
+// RFC 4180 reading and writing, with per-row schema validation for the admin importers
+
+export interface CsvRecord {
+  // 1-based line the record starts on; quoted line breaks make records span lines
+  line: number;
+  fields: string[];
+}
+
+export interface CsvIssue {
+  line: number;
+  column?: string;
+  columnNumber?: number;
+  message: string;
+}
+
+export interface CsvRow<T> {
+  line: number;
+  // Raw cell text by column name, for previews of rows that failed validation
+  values: Record<string, string>;
+  data: T | null;
+  issues: CsvIssue[];
+}
+
+export interface CsvTable<T> {
+  rows: CsvRow<T>[];
+  // Problems with the file as a whole, such as a missing header or an unclosed quote
+  issues: CsvIssue[];
+}
+
+export interface ReadCsvOptions {
+  columns: readonly string[];
+  // "required": columns are matched by header name and may come in any order.
+  // "optional": a leading row naming the first column is treated as a header,
+  // otherwise cells are read in `columns` order.
+  header: "required" | "optional";
+  requiredColumns?: readonly string[];
+}
+
+export function parseCsv(text: string): { records: CsvRecord[]; issues: CsvIssue[] } {
+  const records: CsvRecord[] = [];
+  const issues: CsvIssue[] = [];
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  let fields: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+  let quoteLine = 1;
+
+  const endRecord = () => {
+    fields.push(field);
+    // Blank lines, and rows of empty cells from spreadsheets, are not records
+    if (fields.some((cell) => cell.trim() !== "")) {
+      records.push({ line: recordLine, fields });
+    }
+    fields = [];
+    field = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === "\n" || (char === "\r" && input[i + 1] !== "\n")) line++;
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === "") {
+      // Whitespace before an opening quote is dropped
+      field = "";
+      inQuotes = true;
+      quoteLine = line;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else if (char === "\r" || char === "\n") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    issues.push({ line: quoteLine, message: "Quoted field is never closed" });
+  } else {
+    endRecord();
+  }
+
+  return { records, issues };
+}
+
+function issuesFromZod(error: z.ZodError, line: number, columnNumbers: Record<string, number>): CsvIssue[] {
+  return error.issues.map((issue) => {
+    const column = typeof issue.path[0] === "string" ? issue.path[0] : undefined;
+    return {
+      line,
+      column,
+      columnNumber: column !== undefined && columnNumbers[column] >= 0 ? columnNumbers[column] + 1 : undefined,
+      message: issue.message,
+    };
+  });
+}
+
+export function readCsv<T>(
+  text: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  options: ReadCsvOptions,
+): CsvTable<T> {
+  const { records, issues } = parseCsv(text);
+  if (records.length === 0) return { rows: [], issues };
+
+  const headerCells = records[0].fields.map((cell) => cell.trim().toLowerCase());
+  const hasHeader = options.header === "required" || headerCells.includes(options.columns[0]);
+
+  const columnNumbers = Object.fromEntries(
+    options.columns.map((column, index) => [column, hasHeader ? headerCells.indexOf(column) : index]),
+  );
+
+  if (options.header === "required") {
+    const missing = (options.requiredColumns ?? options.columns).filter((column) => columnNumbers[column] === -1);
+    if (missing.length > 0) {
+      return {
+        rows: [],
+        issues: [...issues, { line: records[0].line, message: `Header row is missing: ${missing.join(", ")}` }],
+      };
+    }
+  }
+
+  const rows = records.slice(hasHeader ? 1 : 0).map((record) => {
+    const values = Object.fromEntries(
+      options.columns.map((column) => [column, (record.fields[columnNumbers[column]] ?? "").trim()]),
+    );
+    const result = schema.safeParse(values);
+
+    return result.success
+      ? { line: record.line, values, data: result.data, issues: [] }
+      : { line: record.line, values, data: null, issues: issuesFromZod(result.error, record.line, columnNumbers) };
+  });
+
+  return { rows, issues };
+}
+
+export function formatCsvIssue(issue: CsvIssue, { withLine = true } = {}): string {
+  const column = issue.column
+    ? issue.columnNumber
+      ? `column ${issue.columnNumber} (${issue.column})`
+      : issue.column
+    : null;
+  const location = [withLine ? `Line ${issue.line}` : null, column].filter(Boolean).join(", ");
+
+  if (!location) return issue.message;
+  return `${location.charAt(0).toUpperCase()}${location.slice(1)}: ${issue.message}`;
+}
+
+// Quotes cells containing commas, quotes or line breaks
+export function toCsv(rows: readonly (readonly unknown[])[]): string {
+  return rows
+    .map((row) =>
+      row
+        .map((cell) => {
+          const text = cell === null || cell === undefined ? "" : String(cell);
+          return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+        })
+        .join(","),
+    )
+    .join("\n");
+}
+
+// Blank cells read as null so optional columns can be left empty
+export function csvOptional<T extends z.ZodTypeAny>(schema: T) {
+  return z.preprocess((value) => (typeof value === "string" && value.trim() === "" ? null : value), schema.nullable());
+}
+
+export const csvWholeNumber = z
+  .string()
+  .trim()
+  .regex(/^\d+$/, "Must be a whole number of 0 or more")
+  .transform(Number);
@@ -0,0 +1,44 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type Event = Tables<"events">;
+
+// Same fallback checkout_cart() applies when a category has no limit set
+export const DEFAULT_CHECKOUT_LIMIT = 10;
+
+export async function loadActiveEvent(): Promise<Event | null> {
+  const { data, error } = await supabase.from("events").select("*").eq("is_active", true).maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+// Per-event overrides keyed by category id; categories without one use their own limit
+export async function loadEventLimits(eventId: string | null): Promise<Record<number, number>> {
+  if (!eventId) return {};
+
+  const { data, error } = await supabase
+    .from("event_category_limits")
+    .select("category_id, checkout_limit")
+    .eq("event_id", eventId);
+
+  if (error) throw error;
+  return Object.fromEntries((data || []).map((row) => [row.category_id, row.checkout_limit]));
+}
+
+export function effectiveCheckoutLimit(
+  eventLimits: Record<number, number>,
+  categoryId: number,
+  categoryLimit: number | null,
+): number {
+  return eventLimits[categoryId] ?? categoryLimit ?? DEFAULT_CHECKOUT_LIMIT;
+}
+
+export function formatEventDates(event: Pick<Event, "starts_on" | "ends_on">): string {
+  const format = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString();
+
+  if (event.starts_on && event.ends_on) return `${format(event.starts_on)} – ${format(event.ends_on)}`;
+  if (event.starts_on) return `From ${format(event.starts_on)}`;
+  if (event.ends_on) return `Until ${format(event.ends_on)}`;
+  return "No dates set";
+}
@@ -0,0 +1,37 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+
+export interface FunctionErrorBody {
+  error: string;
+  code?: string;
+}
+
+export interface CheckoutLine {
+  part_id: number;
+  part_name: string | null;
+  category_id: number | null;
+  category_name: string | null;
+  requested: number;
+  available: number | null;
+  limit: number;
+  outstanding: number;
+  status: "ok" | "not_found" | "checkout_limit_exceeded" | "insufficient_stock";
+  message?: string;
+}
+
+export interface CheckoutErrorBody extends FunctionErrorBody {
+  lines?: CheckoutLine[];
+}
+
+// supabase.functions.invoke only exposes a generic message for non-2xx
+// responses; the JSON body our edge functions send lives on the raw Response.
+export async function readFunctionError<T extends FunctionErrorBody = FunctionErrorBody>(
+  error: unknown,
+): Promise<T | null> {
+  if (!(error instanceof FunctionsHttpError)) return null;
+
+  try {
+    return (await error.context.json()) as T;
+  } catch {
+    return null;
+  }
+}
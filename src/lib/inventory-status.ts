@@ -0,0 +1,35 @@
+export type InventoryStatus =
+  | "reserved"
+  | "issued"
+  | "returned"
+  | "lost"
+  | "damaged"
+  | "cancelled"
+  | "expired";
+
+// Mirrors inventory_status_transition_allowed() in the database, which is
+// the source of truth; this copy only drives which options the UI offers.
+export const STATUS_TRANSITIONS: Record<InventoryStatus, InventoryStatus[]> = {
+  reserved: ["issued", "cancelled", "expired"],
+  issued: ["returned", "lost", "damaged"],
+  returned: [],
+  lost: [],
+  damaged: [],
+  cancelled: [],
+  expired: [],
+};
+
+export const STATUS_LABELS: Record<InventoryStatus, string> = {
+  reserved: "Reserved",
+  issued: "Issued",
+  returned: "Returned",
+  lost: "Lost",
+  damaged: "Damaged",
+  cancelled: "Cancelled",
+  expired: "Expired",
+};
+
+export function getAllowedStatuses(current: string): InventoryStatus[] {
+  const next = STATUS_TRANSITIONS[current as InventoryStatus];
+  return next ? [current as InventoryStatus, ...next] : [current as InventoryStatus];
+}
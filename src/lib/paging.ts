@@ -0,0 +1,21 @@
+import type { PostgrestError } from "@supabase/supabase-js";
+
+// PostgREST returns at most this many rows per request
+export const PAGE_SIZE = 1000;
+
+// Reads every row of a query page by page until a short page comes back.
+// `page` builds the query for one range and must order it by a unique key,
+// or rows can repeat or go missing between pages.
+export async function fetchAllRows<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: PostgrestError | null }>,
+): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
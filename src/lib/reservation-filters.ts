@@ -0,0 +1,75 @@
+import { addDays, format, parse } from "date-fns";
+import type { InventoryStatus } from "@/lib/inventory-status";
+
+// Filters shared by the reservation lists and the reservation export, so an
+// export contains exactly the rows the admin is looking at.
+export interface ReservationFilters {
+  teamId: string | null;
+  categoryId: number | null;
+  status: "all" | InventoryStatus;
+  // Inclusive local dates as yyyy-MM-dd, matching <input type="date">
+  from: string;
+  to: string;
+  search: string;
+}
+
+export const EMPTY_RESERVATION_FILTERS: ReservationFilters = {
+  teamId: null,
+  categoryId: null,
+  status: "all",
+  from: "",
+  to: "",
+  search: "",
+};
+
+export interface FilterableReservation {
+  team_id: string | null;
+  status: string;
+  scanned_at: string;
+  parts: {
+    name: string;
+    category_id: number;
+    categories: { name: string } | null;
+  } | null;
+  profiles: { username: string } | null;
+  teams: { name: string } | null;
+}
+
+export function matchesReservationFilters(record: FilterableReservation, filters: ReservationFilters): boolean {
+  if (filters.teamId && record.team_id !== filters.teamId) return false;
+  if (filters.categoryId && record.parts?.category_id !== filters.categoryId) return false;
+  if (filters.status !== "all" && record.status !== filters.status) return false;
+
+  if (filters.from || filters.to) {
+    const day = format(new Date(record.scanned_at), "yyyy-MM-dd");
+    if (filters.from && day < filters.from) return false;
+    if (filters.to && day > filters.to) return false;
+  }
+
+  const search = filters.search.trim().toLowerCase();
+  if (!search) return true;
+
+  return [record.parts?.name, record.profiles?.username, record.teams?.name, record.parts?.categories?.name].some(
+    (value) => value?.toLowerCase().includes(search),
+  );
+}
+
+// The date filters as a half-open range of instants, [from, to), for queries
+export function reservationDateRange(filters: Pick<ReservationFilters, "from" | "to">): {
+  from: string | null;
+  to: string | null;
+} {
+  const startOfDay = (day: string) => parse(day, "yyyy-MM-dd", new Date());
+
+  return {
+    from: filters.from ? startOfDay(filters.from).toISOString() : null,
+    to: filters.to ? addDays(startOfDay(filters.to), 1).toISOString() : null,
+  };
+}
+
+export function isFiltered(filters: ReservationFilters): boolean {
+  return (
+    Boolean(filters.teamId || filters.categoryId || filters.from || filters.to || filters.search.trim()) ||
+    filters.status !== "all"
+  );
+}
@@ -0,0 +1,110 @@
+import type { CellValue, Workbook } from "exceljs";
+import { toCsv } from "@/lib/csv";
+
+// Client-side XLSX export and import. exceljs is loaded on demand so the
+// dashboard bundle doesn't carry it until someone actually uses a spreadsheet.
+
+export type SheetCell = string | number | Date | null;
+
+export interface SheetColumn {
+  header: string;
+  key: string;
+  width?: number;
+  // Excel number format, e.g. "yyyy-mm-dd hh:mm" for date cells
+  numFmt?: string;
+}
+
+export interface WorkbookSheet {
+  name: string;
+  columns: SheetColumn[];
+  rows: Record<string, SheetCell>[];
+}
+
+export const DATE_TIME_FORMAT = "yyyy-mm-dd hh:mm";
+
+async function createWorkbook(): Promise<Workbook> {
+  const { default: ExcelJS } = await import("exceljs");
+  return new ExcelJS.Workbook();
+}
+
+// exceljs writes a Date as its UTC time, while the app and the CSV exports
+// show local time; shifting by the offset makes the cell read as local time
+function localCell(value: SheetCell): SheetCell {
+  return value instanceof Date ? new Date(value.getTime() - value.getTimezoneOffset() * 60000) : value;
+}
+
+export function isSpreadsheetFile(file: File): boolean {
+  return /\.xlsx$/i.test(file.name);
+}
+
+export async function downloadWorkbook(fileName: string, sheets: WorkbookSheet[]): Promise<void> {
+  const workbook = await createWorkbook();
+
+  sheets.forEach((sheet) => {
+    const worksheet = workbook.addWorksheet(sheet.name, { views: [{ state: "frozen", ySplit: 1 }] });
+    worksheet.columns = sheet.columns.map((column) => ({
+      header: column.header,
+      key: column.key,
+      width: column.width ?? Math.max(12, column.header.length + 2),
+      style: column.numFmt ? { numFmt: column.numFmt } : undefined,
+    }));
+    worksheet.getRow(1).font = { bold: true };
+    worksheet.addRows(
+      sheet.rows.map((row) => Object.fromEntries(Object.entries(row).map(([key, value]) => [key, localCell(value)]))),
+    );
+  });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  const blob = new Blob([buffer], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" });
+  const link = document.createElement("a");
+  const url = URL.createObjectURL(blob);
+
+  link.setAttribute("href", url);
+  link.setAttribute("download", fileName);
+  link.style.visibility = "hidden";
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+}
+
+function cellText(value: CellValue): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value !== "object") return String(value);
+  if ("richText" in value) return value.richText.map((run) => run.text).join("");
+  if ("text" in value) return String(value.text);
+  if ("result" in value) return value.result === undefined ? "" : cellText(value.result as CellValue);
+  if ("error" in value) return "";
+  return "";
+}
+
+// Turns one worksheet into CSV text so spreadsheets go through the same
+// parsing and validation as CSV files. Sheet row numbers are kept as line
+// numbers by emitting blank rows too. Picks the sheet named `sheetName` when
+// there is one, otherwise the first sheet.
+export async function readSpreadsheetAsCsv(file: File, sheetName?: string): Promise<string> {
+  const workbook = await createWorkbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+
+  const worksheet =
+    workbook.worksheets.find((sheet) => sheetName && sheet.name.toLowerCase() === sheetName.toLowerCase()) ??
+    workbook.worksheets[0];
+  if (!worksheet) throw new Error("The workbook has no sheets");
+
+  const rows: string[][] = [];
+  worksheet.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+    const cells: string[] = [];
+    row.eachCell({ includeEmpty: true }, (cell, columnNumber) => {
+      cells[columnNumber - 1] = cellText(cell.value);
+    });
+    rows[rowNumber - 1] = Array.from(cells, (cell) => cell ?? "");
+  });
+
+  return toCsv(Array.from(rows, (row) => row ?? []));
+}
+
+// Reads an import file as CSV text, converting spreadsheets first
+export async function readImportFile(file: File, sheetName?: string): Promise<string> {
+  return isSpreadsheetFile(file) ? readSpreadsheetAsCsv(file, sheetName) : file.text();
+}
@@ -1,22 +1,42 @@
 import { useState, useEffect } from "react";
+import { Navigate, useNavigate, useParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Package, Users, Settings, ScanLine, LogOut, Plus } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Package, Users, Settings, ScanLine, LogOut, Plus, PackageCheck, Undo2, ClipboardList, ScrollText, KeyRound, CalendarDays } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { ChangePasswordDialog } from "@/components/layout/change-password-dialog";
+import type { Event } from "@/lib/events";
 import CategoryManagement from "@/components/admin/CategoryManagement";
 import UserManagement from "@/components/admin/UserManagement";
 import InventoryTracking from "@/components/admin/InventoryTracking";
 import UserReservations from "@/components/admin/UserReservations";
+import SystemSettings from "@/components/admin/SystemSettings";
+import BackupRestore from "@/components/admin/BackupRestore";
+import AuditLog from "@/components/admin/AuditLog";
+import PickupStation from "@/components/admin/PickupStation";
+import ReturnDesk from "@/components/admin/ReturnDesk";
+import Stocktake from "@/components/admin/Stocktake";
+import EventManagement from "@/components/admin/EventManagement";
 
-interface AdminDashboardProps {
-  onLogout: () => void;
-  userData: any;
-}
+const ADMIN_TABS = ["categories", "users", "events", "reservations", "inventory", "audit", "settings"];
+const INVENTORY_SECTIONS = ["stock", "pickup", "returns", "stocktake"];
+// Desk staff only run the pickup station and return desk
+const STAFF_TABS = ["inventory"];
+const STAFF_INVENTORY_SECTIONS = ["pickup", "returns"];
 
-export default function AdminDashboard({ onLogout, userData }: AdminDashboardProps) {
-  const [activeTab, setActiveTab] = useState("categories");
+export default function AdminDashboard() {
+  const { tab, section } = useParams<{ tab: string; section?: string }>();
+  const navigate = useNavigate();
+  const { profile, signOut } = useAuth();
+  const isAdmin = profile?.role === "admin";
+  const [isPasswordDialogOpen, setIsPasswordDialogOpen] = useState(false);
+  const [events, setEvents] = useState<Event[]>([]);
+  // Reservations, reports and exports are shown for this event; defaults to the active one
+  const [selectedEventId, setSelectedEventId] = useState<string | null>(null);
   const [stats, setStats] = useState({
     totalCategories: 0,
     totalParts: 0,
@@ -26,19 +46,50 @@ export default function AdminDashboard({ onLogout, userData }: AdminDashboardPro
   const { toast } = useToast();
 
   useEffect(() => {
-    loadStats();
-  }, []);
+    if (isAdmin) loadEvents();
+  }, [isAdmin]);
+
+  useEffect(() => {
+    if (isAdmin) loadStats();
+  }, [isAdmin, selectedEventId]);
+
+  const loadEvents = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("events")
+        .select("*")
+        .order("starts_on", { ascending: false, nullsFirst: false });
+
+      if (error) throw error;
+      setEvents(data || []);
+
+      setSelectedEventId((current) =>
+        data?.some((event) => event.id === current)
+          ? current
+          : (data?.find((event) => event.is_active) ?? data?.[0])?.id ?? null
+      );
+    } catch (error: any) {
+      toast({
+        title: "Error loading events",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
 
   const loadStats = async () => {
     try {
+      let issuedQuery = supabase
+        .from("inventory_tracking")
+        .select("*", { count: "exact" })
+        .eq("status", "issued");
+      if (selectedEventId) issuedQuery = issuedQuery.eq("event_id", selectedEventId);
+
       const [categoriesResult, partsResult, usersResult, trackingResult] = await Promise.all([
         supabase.from("categories").select("*", { count: "exact" }),
         supabase.from("parts").select("*", { count: "exact" }),
         supabase.from("profiles").select("*", { count: "exact" }),
-        supabase
-          .from("inventory_tracking")
-          .select("*", { count: "exact" })
-          .eq("status", "issued"),
+        issuedQuery,
       ]);
 
       setStats({
@@ -59,8 +110,7 @@ export default function AdminDashboard({ onLogout, userData }: AdminDashboardPro
 
   const handleLogout = async () => {
     try {
-      await supabase.auth.signOut();
-      onLogout();
+      await signOut();
     } catch (error: any) {
       toast({
         title: "Error signing out",
@@ -70,6 +120,15 @@ export default function AdminDashboard({ onLogout, userData }: AdminDashboardPro
     }
   };
 
+  const tabs = isAdmin ? ADMIN_TABS : STAFF_TABS;
+  const sections = isAdmin ? INVENTORY_SECTIONS : STAFF_INVENTORY_SECTIONS;
+
+  if (!tabs.includes(tab)) {
+    return <Navigate to={isAdmin ? "/admin/categories" : "/admin/inventory/pickup"} replace />;
+  }
+
+  const inventorySection = sections.includes(section) ? section : sections[0];
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -81,83 +140,120 @@ export default function AdminDashboard({ onLogout, userData }: AdminDashboardPro
                 <Package className="h-6 w-6 text-white" />
               </div>
               <div>
-                <h1 className="text-xl font-bold">Robothon Admin</h1>
-                <p className="text-sm text-muted-foreground">Inventory Management System</p>
+                <h1 className="text-xl font-bold">{isAdmin ? "Robothon Admin" : "Robothon Desk"}</h1>
+                <p className="text-sm text-muted-foreground">
+                  {isAdmin ? "Inventory Management System" : `Signed in as ${profile?.username}`}
+                </p>
               </div>
             </div>
-            <Button onClick={handleLogout} variant="outline" size="sm">
-              <LogOut className="h-4 w-4 mr-2" />
-              Logout
-            </Button>
+            <div className="flex items-center gap-2">
+              {isAdmin && events.length > 0 && (
+                <Select value={selectedEventId ?? undefined} onValueChange={setSelectedEventId}>
+                  <SelectTrigger className="w-[220px]">
+                    <CalendarDays className="h-4 w-4 mr-2" />
+                    <SelectValue placeholder="Select event" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {events.map((event) => (
+                      <SelectItem key={event.id} value={event.id}>
+                        {event.name}
+                        {event.is_active ? " (active)" : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Button onClick={() => setIsPasswordDialogOpen(true)} variant="ghost" size="sm">
+                <KeyRound className="h-4 w-4 mr-2" />
+                Change Password
+              </Button>
+              <Button onClick={handleLogout} variant="outline" size="sm">
+                <LogOut className="h-4 w-4 mr-2" />
+                Logout
+              </Button>
+            </div>
+            <ChangePasswordDialog open={isPasswordDialogOpen} onOpenChange={setIsPasswordDialogOpen} />
           </div>
         </div>
       </header>
 
       <div className="container mx-auto px-4 py-6">
         {/* Stats Overview */}
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
-          <Card>
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Categories</CardTitle>
-              <Package className="h-4 w-4 text-muted-foreground" />
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold">{stats.totalCategories}</div>
-            </CardContent>
-          </Card>
-          <Card>
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Parts</CardTitle>
-              <Settings className="h-4 w-4 text-muted-foreground" />
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold">{stats.totalParts}</div>
-            </CardContent>
-          </Card>
-          <Card>
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Users</CardTitle>
-              <Users className="h-4 w-4 text-muted-foreground" />
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold">{stats.totalUsers}</div>
-            </CardContent>
-          </Card>
-          <Card>
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Active Issues</CardTitle>
-              <ScanLine className="h-4 w-4 text-muted-foreground" />
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold">{stats.activeReservations}</div>
-            </CardContent>
-          </Card>
-        </div>
+        {isAdmin && (
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Categories</CardTitle>
+                <Package className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{stats.totalCategories}</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Parts</CardTitle>
+                <Settings className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{stats.totalParts}</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Users</CardTitle>
+                <Users className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{stats.totalUsers}</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">Active Issues</CardTitle>
+                <ScanLine className="h-4 w-4 text-muted-foreground" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{stats.activeReservations}</div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
 
         {/* Main Content */}
-        <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-          <TabsList className="grid w-full grid-cols-5">
-            <TabsTrigger value="categories" className="flex items-center gap-2">
-              <Package className="h-4 w-4" />
-              Categories
-            </TabsTrigger>
-            <TabsTrigger value="users" className="flex items-center gap-2">
-              <Users className="h-4 w-4" />
-              Users
-            </TabsTrigger>
-            <TabsTrigger value="reservations" className="flex items-center gap-2">
-              <ScanLine className="h-4 w-4" />
-              Reservations
-            </TabsTrigger>
-            <TabsTrigger value="inventory" className="flex items-center gap-2">
-              <ScanLine className="h-4 w-4" />
-              Inventory
-            </TabsTrigger>
-            <TabsTrigger value="settings" className="flex items-center gap-2">
-              <Settings className="h-4 w-4" />
-              Settings
-            </TabsTrigger>
-          </TabsList>
+        <Tabs value={tab} onValueChange={(value) => navigate(`/admin/${value}`)} className="space-y-6">
+          {isAdmin && (
+            <TabsList className="grid w-full grid-cols-7">
+              <TabsTrigger value="categories" className="flex items-center gap-2">
+                <Package className="h-4 w-4" />
+                Categories
+              </TabsTrigger>
+              <TabsTrigger value="users" className="flex items-center gap-2">
+                <Users className="h-4 w-4" />
+                Users
+              </TabsTrigger>
+              <TabsTrigger value="events" className="flex items-center gap-2">
+                <CalendarDays className="h-4 w-4" />
+                Events
+              </TabsTrigger>
+              <TabsTrigger value="reservations" className="flex items-center gap-2">
+                <ScanLine className="h-4 w-4" />
+                Reservations
+              </TabsTrigger>
+              <TabsTrigger value="inventory" className="flex items-center gap-2">
+                <ScanLine className="h-4 w-4" />
+                Inventory
+              </TabsTrigger>
+              <TabsTrigger value="audit" className="flex items-center gap-2">
+                <ScrollText className="h-4 w-4" />
+                Audit
+              </TabsTrigger>
+              <TabsTrigger value="settings" className="flex items-center gap-2">
+                <Settings className="h-4 w-4" />
+                Settings
+              </TabsTrigger>
+            </TabsList>
+          )}
 
           <TabsContent value="categories" className="space-y-6">
             <CategoryManagement onStatsUpdate={loadStats} />
@@ -167,27 +263,66 @@ export default function AdminDashboard({ onLogout, userData }: AdminDashboardPro
             <UserManagement onStatsUpdate={loadStats} />
           </TabsContent>
 
+          <TabsContent value="events" className="space-y-6">
+            <EventManagement events={events} onEventsChange={loadEvents} />
+          </TabsContent>
+
           <TabsContent value="reservations" className="space-y-6">
-            <UserReservations />
+            <UserReservations eventId={selectedEventId} />
           </TabsContent>
 
           <TabsContent value="inventory" className="space-y-6">
-            <InventoryTracking onStatsUpdate={loadStats} />
+            <Tabs
+              value={inventorySection}
+              onValueChange={(value) => navigate(`/admin/inventory/${value}`)}
+              className="space-y-6"
+            >
+              <TabsList>
+                {isAdmin && (
+                  <TabsTrigger value="stock" className="flex items-center gap-2">
+                    <ScanLine className="h-4 w-4" />
+                    Stock & Activity
+                  </TabsTrigger>
+                )}
+                <TabsTrigger value="pickup" className="flex items-center gap-2">
+                  <PackageCheck className="h-4 w-4" />
+                  Pickup Station
+                </TabsTrigger>
+                <TabsTrigger value="returns" className="flex items-center gap-2">
+                  <Undo2 className="h-4 w-4" />
+                  Return Desk
+                </TabsTrigger>
+                {isAdmin && (
+                  <TabsTrigger value="stocktake" className="flex items-center gap-2">
+                    <ClipboardList className="h-4 w-4" />
+                    Stocktake
+                  </TabsTrigger>
+                )}
+              </TabsList>
+
+              <TabsContent value="stock">
+                <InventoryTracking eventId={selectedEventId} onStatsUpdate={loadStats} />
+              </TabsContent>
+
+              <TabsContent value="pickup">
+                <PickupStation onStatsUpdate={loadStats} />
+              </TabsContent>
+              <TabsContent value="returns">
+                <ReturnDesk onStatsUpdate={loadStats} />
+              </TabsContent>
+              <TabsContent value="stocktake">
+                <Stocktake onStatsUpdate={loadStats} />
+              </TabsContent>
+            </Tabs>
+          </TabsContent>
+
+          <TabsContent value="audit" className="space-y-6">
+            <AuditLog />
           </TabsContent>
 
           <TabsContent value="settings" className="space-y-6">
-            <Card>
-              <CardHeader>
-                <CardTitle>System Settings</CardTitle>
-                <CardDescription>Configure system preferences and options</CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div className="text-center py-8">
-                  <Settings className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
-                  <p className="text-muted-foreground">Settings panel coming soon...</p>
-                </div>
-              </CardContent>
-            </Card>
+            <SystemSettings />
+            <BackupRestore />
           </TabsContent>
         </Tabs>
       </div>
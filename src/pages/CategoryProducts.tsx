@@ -1,4 +1,5 @@
 import { useState, useEffect } from "react";
+import { useNavigate, useParams } from "react-router-dom";
 import { Header } from "@/components/layout/header";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -16,7 +17,10 @@ import {
   Plus
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { supabase } from "@/integrations/supabase/client";
+import { DEFAULT_CHECKOUT_LIMIT, effectiveCheckoutLimit, loadActiveEvent, loadEventLimits } from "@/lib/events";
+import { readFunctionError, type CheckoutErrorBody } from "@/lib/functions";
 
 interface Part {
   id: number;
@@ -32,6 +36,7 @@ interface Category {
   name: string;
   description: string | null;
   checkout_limit: number;
+  reservation_ttl_minutes: number | null;
 }
 
 interface CartItem {
@@ -39,16 +44,17 @@ interface CartItem {
   quantity: number;
 }
 
-interface CategoryProductsProps {
-  categoryId: number;
-  onBack: () => void;
-  onLogout: () => void;
-}
-
-export default function CategoryProducts({ categoryId, onBack, onLogout }: CategoryProductsProps) {
+export default function CategoryProducts() {
+  const params = useParams<{ categoryId: string }>();
+  const categoryId = Number(params.categoryId);
+  const navigate = useNavigate();
+  const { signOut } = useAuth();
   const [parts, setParts] = useState<Part[]>([]);
   const [category, setCategory] = useState<Category | null>(null);
   const [cart, setCart] = useState<Record<number, number>>({});
+  const [outstandingCount, setOutstandingCount] = useState(0);
+  const [checkoutLimit, setCheckoutLimit] = useState(DEFAULT_CHECKOUT_LIMIT);
+  const [lineErrors, setLineErrors] = useState<Record<number, string>>({});
   const [isReserving, setIsReserving] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const { toast } = useToast();
@@ -106,6 +112,8 @@ export default function CategoryProducts({ categoryId, onBack, onLogout }: Categ
 
       if (partsError) throw partsError;
       setParts(partsData || []);
+
+      await loadOutstanding(categoryData.checkout_limit);
     } catch (error: any) {
       toast({
         title: "Error loading products",
@@ -117,6 +125,47 @@ export default function CategoryProducts({ categoryId, onBack, onLogout }: Categ
     }
   };
 
+  // Units the whole team still holds in the category during the active event
+  // count against the event's limit, or checkout_limit when it sets none
+  const loadOutstanding = async (categoryLimit: number | null) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("id, team_id")
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (!profile) return;
+
+    const event = await loadActiveEvent();
+    setCheckoutLimit(effectiveCheckoutLimit(await loadEventLimits(event?.id ?? null), categoryId, categoryLimit));
+
+    let query = supabase
+      .from("inventory_tracking")
+      .select("id, parts!inner (category_id)", { count: "exact", head: true })
+      .in("status", ["reserved", "issued"])
+      .eq("parts.category_id", categoryId);
+    if (event) query = query.eq("event_id", event.id);
+
+    const { count, error } = await (profile.team_id
+      ? query.eq("team_id", profile.team_id)
+      : query.eq("team_user_id", profile.id));
+
+    if (error) throw error;
+    setOutstandingCount(count || 0);
+  };
+
+  const clearLineError = (partId: number) => {
+    setLineErrors(prev => {
+      if (!(partId in prev)) return prev;
+      const updated = { ...prev };
+      delete updated[partId];
+      return updated;
+    });
+  };
+
   const getStockStatus = (quantity: number) => {
     if (quantity === 0) return "out-of-stock";
     if (quantity <= 5) return "low-stock";
@@ -129,6 +178,7 @@ export default function CategoryProducts({ categoryId, onBack, onLogout }: Categ
 
     const currentQty = cart[partId] || 0;
     const newQty = Math.max(0, Math.min(currentQty + change, part.quantity));
+    clearLineError(partId);
     
     setCart(prev => {
       const updated = { ...prev };
@@ -147,6 +197,7 @@ export default function CategoryProducts({ categoryId, onBack, onLogout }: Categ
 
     const qty = parseInt(value) || 0;
     const newQty = Math.max(0, Math.min(qty, part.quantity));
+    clearLineError(partId);
     
     setCart(prev => {
       const updated = { ...prev };
@@ -163,7 +214,7 @@ export default function CategoryProducts({ categoryId, onBack, onLogout }: Categ
     return Object.values(cart).reduce((sum, qty) => sum + qty, 0);
   };
 
-  const handleReserveAll = async (retryCount = 0) => {
+  const handleReserveAll = async () => {
     if (Object.keys(cart).length === 0) {
       toast({
         variant: "destructive",
@@ -174,13 +225,12 @@ export default function CategoryProducts({ categoryId, onBack, onLogout }: Categ
     }
 
     const totalItems = getTotalItems();
-    const checkoutLimit = category?.checkout_limit || 10;
 
-    if (totalItems > checkoutLimit) {
+    if (totalItems + outstandingCount > checkoutLimit) {
       toast({
         variant: "destructive",
         title: "Checkout limit exceeded",
-        description: `You can only checkout up to ${checkoutLimit} items from this category.`,
+        description: `Your team can only hold up to ${checkoutLimit} items from this category (currently holding ${outstandingCount}).`,
       });
       return;
     }
@@ -202,12 +252,36 @@ export default function CategoryProducts({ categoryId, onBack, onLogout }: Categ
       });
 
       if (error) {
-        // Retry logic with exponential backoff for concurrent request handling
-        if (retryCount < 3 && error.message?.includes('stock')) {
-          await new Promise(resolve => setTimeout(resolve, Math.pow(2, retryCount) * 500));
-          return handleReserveAll(retryCount + 1);
+        const body = await readFunctionError<CheckoutErrorBody>(error);
+        if (body?.lines) {
+          const errors: Record<number, string> = {};
+          for (const line of body.lines) {
+            if (line.status !== "ok") errors[line.part_id] = line.message || body.error;
+          }
+          setLineErrors(errors);
+
+          // Clamp out-of-stock lines to what is actually left
+          if (body.code === "out_of_stock") {
+            setCart(prev => {
+              const updated = { ...prev };
+              for (const line of body.lines) {
+                if (line.status !== "insufficient_stock" || !(line.part_id in updated)) continue;
+                const available = line.available ?? 0;
+                if (available > 0) {
+                  updated[line.part_id] = Math.min(updated[line.part_id], available);
+                } else {
+                  delete updated[line.part_id];
+                }
+              }
+              return updated;
+            });
+          }
+
+          // Nothing was reserved; refresh stock and holdings so the cart can be fixed
+          await loadCategoryAndParts();
+          throw new Error(body.error);
         }
-        throw error;
+        throw new Error(body?.error || error.message);
       }
 
       toast({
@@ -217,6 +291,7 @@ export default function CategoryProducts({ categoryId, onBack, onLogout }: Categ
 
       // Clear cart and reload parts
       setCart({});
+      setLineErrors({});
       await loadCategoryAndParts();
     } catch (error: any) {
       toast({
@@ -241,13 +316,13 @@ export default function CategoryProducts({ categoryId, onBack, onLogout }: Categ
   }
 
   const totalItems = getTotalItems();
-  const checkoutLimit = category?.checkout_limit || 10;
+  const remainingAllowance = Math.max(0, checkoutLimit - outstandingCount);
 
   return (
     <div className="min-h-screen bg-background pb-32">
       <Header 
         userRole="team" 
-        onLogout={onLogout} 
+        onLogout={signOut} 
       />
       
       <main className="container mx-auto px-4 py-6 space-y-6">
@@ -256,7 +331,7 @@ export default function CategoryProducts({ categoryId, onBack, onLogout }: Categ
           <div className="flex items-center space-x-4">
             <Button 
               variant="ghost" 
-              onClick={onBack}
+              onClick={() => navigate("/team")}
               className="flex items-center gap-2"
             >
               <ArrowLeft className="h-4 w-4" />
@@ -282,14 +357,20 @@ export default function CategoryProducts({ categoryId, onBack, onLogout }: Categ
                 <div>
                   <h3 className="font-semibold">Available Parts</h3>
                   <p className="text-sm text-muted-foreground">
-                    {parts.length} parts available • Max {checkoutLimit} items per checkout
+                    {parts.length} parts available • Max {checkoutLimit} items per team
+                    {outstandingCount > 0 && ` • ${outstandingCount} already held by your team`}
                   </p>
+                  {category?.reservation_ttl_minutes && (
+                    <p className="text-xs text-muted-foreground">
+                      Reservations are released if not picked up within {category.reservation_ttl_minutes} minutes
+                    </p>
+                  )}
                 </div>
               </div>
               {totalItems > 0 && (
-                <Badge variant={totalItems > checkoutLimit ? "destructive" : "default"} className="text-lg px-4 py-2">
+                <Badge variant={totalItems > remainingAllowance ? "destructive" : "default"} className="text-lg px-4 py-2">
                   <ShoppingCart className="h-4 w-4 mr-2" />
-                  {totalItems} / {checkoutLimit}
+                  {totalItems} / {remainingAllowance}
                 </Badge>
               )}
             </div>
@@ -375,6 +456,13 @@ export default function CategoryProducts({ categoryId, onBack, onLogout }: Categ
                       Out of Stock
                     </Button>
                   )}
+
+                  {lineErrors[part.id] && (
+                    <p className="text-sm text-destructive flex items-start gap-1">
+                      <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                      {lineErrors[part.id]}
+                    </p>
+                  )}
                 </CardContent>
               </Card>
             );
@@ -404,20 +492,20 @@ export default function CategoryProducts({ categoryId, onBack, onLogout }: Categ
                   Total: {totalItems} item{totalItems !== 1 ? 's' : ''} selected
                 </div>
                 <div className="text-sm text-muted-foreground">
-                  {totalItems > checkoutLimit ? (
+                  {totalItems > remainingAllowance ? (
                     <span className="text-destructive">
                       <AlertCircle className="h-3 w-3 inline mr-1" />
-                      Exceeds limit of {checkoutLimit} items
+                      Exceeds limit of {checkoutLimit} items ({outstandingCount} already held)
                     </span>
                   ) : (
-                    `${checkoutLimit - totalItems} items remaining`
+                    `${remainingAllowance - totalItems} items remaining`
                   )}
                 </div>
               </div>
               <Button
                 size="lg"
                 onClick={() => handleReserveAll()}
-                disabled={isReserving || totalItems > checkoutLimit}
+                disabled={isReserving || totalItems > remainingAllowance}
                 className="min-w-[200px]"
               >
                 {isReserving ? (
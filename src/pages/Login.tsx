@@ -1,4 +1,5 @@
 import { useState, useEffect } from "react";
+import { Navigate, useLocation, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -6,28 +7,33 @@ import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Package, Users, Shield } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth, homePathForRole, type UserRole } from "@/hooks/use-auth";
 import { supabase } from "@/integrations/supabase/client";
-import type { Session, User } from "@supabase/supabase-js";
 
-interface LoginProps {
-  onLogin: (role: "team" | "admin", session: Session, profile: any) => void;
-}
-
-export default function Login({ onLogin }: LoginProps) {
+export default function Login() {
   const [isLoading, setIsLoading] = useState(false);
+  const { profile: currentProfile, loading } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
   const { toast } = useToast();
 
-  // Ensure default admin exists (idempotent)
+  // A fresh install has no admin yet, so send the visitor to first-run setup
   useEffect(() => {
-    supabase.functions.invoke("bootstrap-admin").then(({ data, error }) => {
+    supabase.functions.invoke("bootstrap-admin", { body: { action: "status" } }).then(({ data, error }) => {
       if (error) {
-        console.error("Failed to bootstrap admin:", error);
-      } else {
-        console.log("Bootstrap admin result:", data);
+        console.error("Failed to check setup status:", error);
+      } else if (data?.needs_setup) {
+        navigate("/setup", { replace: true });
       }
     });
   }, []);
 
+  // Return to the page that sent the user here, as long as it belongs to their role
+  const goToDashboard = (role: UserRole) => {
+    const from = (location.state as { from?: string } | null)?.from;
+    const home = homePathForRole(role);
+    navigate(from && from.startsWith(home) ? from : home, { replace: true });
+  };
 
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>, role: "team" | "admin") => {
     e.preventDefault();
@@ -38,77 +44,44 @@ export default function Login({ onLogin }: LoginProps) {
     const password = formData.get("password") as string;
 
     try {
-      if (role === "admin" && username === "admin" && password === "admin123") {
-        // Sign in as admin user (use admin@robothon.local)
-        const { data, error } = await supabase.auth.signInWithPassword({
-          email: "admin@robothon.local",
-          password: "admin123",
-        });
-
-        if (error) {
-          throw error;
-        }
-
-        if (!data.session) {
-          throw new Error("Failed to create session");
-        }
-
-        // Get admin profile
-        const { data: profile, error: profileError } = await supabase
-          .from("profiles")
-          .select("*")
-          .eq("user_id", data.user.id)
-          .maybeSingle();
-
-        if (profileError) {
-          throw profileError;
-        }
-
-        if (!profile) {
-          throw new Error("Admin profile not found. Please contact support.");
-        }
-
-        toast({
-          title: "Login successful",
-          description: "Welcome Administrator!",
-        });
-        onLogin("admin", data.session, profile);
-      } else if (role === "team") {
-        // Construct email from username and sign in
-        const email = `${username}@team.local`;
-
-        const { data, error } = await supabase.auth.signInWithPassword({
-          email,
-          password,
-        });
-
-        if (error) {
-          throw new Error("Invalid credentials");
-        }
-
-        if (!data.session || !data.user) {
-          throw new Error("Failed to create session");
-        }
-
-        // Fetch profile after login
-        const { data: profile, error: profileError } = await supabase
-          .from("profiles")
-          .select("*")
-          .eq("user_id", data.user.id)
-          .maybeSingle();
-
-        if (profileError || !profile) {
-          throw new Error("Profile not found for this user");
-        }
-
-        toast({
-          title: "Login successful",
-          description: `Welcome ${profile.username}!`,
-        });
-        onLogin("team", data.session, profile);
-      } else {
+      // Every account signs in through the same username scheme
+      const email = `${username.trim()}@team.local`;
+
+      const { data, error } = await supabase.auth.signInWithPassword({
+        email,
+        password,
+      });
+
+      if (error) {
         throw new Error("Invalid credentials");
       }
+
+      if (!data.session || !data.user) {
+        throw new Error("Failed to create session");
+      }
+
+      // Fetch profile after login
+      const { data: profile, error: profileError } = await supabase
+        .from("profiles")
+        .select("*")
+        .eq("user_id", data.user.id)
+        .maybeSingle();
+
+      if (profileError || !profile) {
+        await supabase.auth.signOut();
+        throw new Error("Profile not found for this user");
+      }
+
+      if (role === "admin" && profile.role === "team") {
+        await supabase.auth.signOut();
+        throw new Error("This account does not have admin or staff access");
+      }
+
+      toast({
+        title: "Login successful",
+        description: profile.role === "admin" ? "Welcome Administrator!" : `Welcome ${profile.username}!`,
+      });
+      goToDashboard(profile.role);
     } catch (error: any) {
       toast({
         title: "Login failed",
@@ -120,6 +93,10 @@ export default function Login({ onLogin }: LoginProps) {
     }
   };
 
+  if (!loading && currentProfile && !isLoading) {
+    return <Navigate to={homePathForRole(currentProfile.role)} replace />;
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-hero p-4">
       <div className="w-full max-w-md">
@@ -151,7 +128,7 @@ export default function Login({ onLogin }: LoginProps) {
                 </TabsTrigger>
                 <TabsTrigger value="admin" className="flex items-center gap-2">
                   <Shield className="h-4 w-4" />
-                  Admin
+                  Admin / Staff
                 </TabsTrigger>
               </TabsList>
 
@@ -187,11 +164,11 @@ export default function Login({ onLogin }: LoginProps) {
               <TabsContent value="admin" className="space-y-4 mt-6">
                 <form onSubmit={(e) => handleSubmit(e, "admin")} className="space-y-4">
                   <div className="space-y-2">
-                    <Label htmlFor="admin-username">Admin Username</Label>
+                    <Label htmlFor="admin-username">Username</Label>
                     <Input 
                       id="admin-username" 
                       name="username"
-                      placeholder="Enter admin username"
+                      placeholder="Enter admin or staff username"
                       required 
                     />
                   </div>
@@ -206,7 +183,7 @@ export default function Login({ onLogin }: LoginProps) {
                     />
                   </div>
                   <Button type="submit" className="w-full" disabled={isLoading}>
-                    {isLoading ? "Signing in..." : "Sign in as Admin"}
+                    {isLoading ? "Signing in..." : "Sign in as Admin or Staff"}
                   </Button>
                 </form>
               </TabsContent>
@@ -0,0 +1,152 @@
+import { useState, useEffect } from "react";
+import { Navigate, useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Package, KeyRound } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { readFunctionError } from "@/lib/functions";
+
+interface SetupStatus {
+  needs_setup: boolean;
+  setup_enabled: boolean;
+}
+
+export default function Setup() {
+  const [status, setStatus] = useState<SetupStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    supabase.functions.invoke("bootstrap-admin", { body: { action: "status" } }).then(({ data, error }) => {
+      if (error) {
+        console.error("Failed to check setup status:", error);
+        toast({
+          title: "Could not check setup status",
+          description: error.message,
+          variant: "destructive",
+        });
+      } else {
+        setStatus(data);
+      }
+    });
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const formData = new FormData(e.currentTarget);
+    const setupToken = formData.get("setup_token") as string;
+    const username = (formData.get("username") as string).trim();
+    const password = formData.get("password") as string;
+    const confirmPassword = formData.get("confirm_password") as string;
+
+    if (password !== confirmPassword) {
+      toast({
+        title: "Passwords do not match",
+        description: "Please enter the same password twice.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const { error } = await supabase.functions.invoke("bootstrap-admin", {
+        body: { setup_token: setupToken, username, password },
+      });
+
+      if (error) {
+        const body = await readFunctionError(error);
+        throw new Error(body?.error || error.message);
+      }
+
+      const { error: signInError } = await supabase.auth.signInWithPassword({
+        email: `${username}@team.local`,
+        password,
+      });
+
+      if (signInError) throw signInError;
+
+      toast({
+        title: "Setup complete",
+        description: `Admin account ${username} has been created.`,
+      });
+      navigate("/admin", { replace: true });
+    } catch (error: any) {
+      toast({
+        title: "Setup failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (status && !status.needs_setup) {
+    return <Navigate to="/login" replace />;
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-hero p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <div className="flex justify-center mb-4">
+            <div className="flex h-16 w-16 items-center justify-center rounded-2xl bg-gradient-primary shadow-glow">
+              <Package className="h-8 w-8 text-white" />
+            </div>
+          </div>
+          <h1 className="text-3xl font-bold mb-2">Robothon Inventory</h1>
+          <p className="text-muted-foreground">First-run setup</p>
+        </div>
+
+        <Card className="shadow-medium">
+          <CardHeader className="pb-4">
+            <CardTitle className="text-center flex items-center justify-center gap-2">
+              <KeyRound className="h-5 w-5" />
+              Create Admin Account
+            </CardTitle>
+            <CardDescription className="text-center">
+              Choose the username and password for the first administrator
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {status && !status.setup_enabled ? (
+              <p className="text-sm text-muted-foreground text-center">
+                Setup is disabled. Set the <code>ADMIN_SETUP_TOKEN</code> secret for the edge functions, then reload
+                this page.
+              </p>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="setup_token">Setup Token</Label>
+                  <Input id="setup_token" name="setup_token" type="password" required />
+                  <p className="text-xs text-muted-foreground">The value of the ADMIN_SETUP_TOKEN secret</p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="username">Admin Username</Label>
+                  <Input id="username" name="username" minLength={3} placeholder="e.g., organiser" required />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="password">Password</Label>
+                  <Input id="password" name="password" type="password" minLength={8} required />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="confirm_password">Confirm Password</Label>
+                  <Input id="confirm_password" name="confirm_password" type="password" minLength={8} required />
+                </div>
+                <Button type="submit" className="w-full" disabled={isLoading || !status}>
+                  {isLoading ? "Creating..." : "Create Admin"}
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
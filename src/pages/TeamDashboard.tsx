@@ -1,21 +1,29 @@
 import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
 import { Header } from "@/components/layout/header";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { StatusBadge } from "@/components/ui/status-badge";
+import { Button } from "@/components/ui/button";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { effectiveCheckoutLimit, loadActiveEvent, loadEventLimits, type Event } from "@/lib/events";
 import { 
   Cpu, 
   ChevronRight, 
   Package, 
   Clock,
-  CheckCircle2 
+  CheckCircle2,
+  XCircle,
+  Timer,
+  AlarmClock
 } from "lucide-react";
 
 interface Category {
   id: number;
   name: string;
   description: string;
+  checkout_limit: number | null;
   created_at: string;
 }
 
@@ -24,31 +32,67 @@ interface Reservation {
   part_id: number;
   status: string;
   scanned_at: string;
+  expires_at: string | null;
+  due_at: string | null;
   notes: string | null;
   admin_remarks: string | null;
   parts: {
     name: string;
+    category_id: number;
     categories: {
       name: string;
     };
   };
+  profiles: {
+    username: string;
+  } | null;
 }
 
-interface TeamDashboardProps {
-  onLogout: () => void;
-  onSelectCategory: (categoryId: number) => void;
+function formatRemaining(ms: number) {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`;
 }
 
-export default function TeamDashboard({ onLogout, onSelectCategory }: TeamDashboardProps) {
+function ExpiryCountdown({ expiresAt }: { expiresAt: string }) {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const remaining = new Date(expiresAt).getTime() - now;
+
+  return (
+    <span className={`flex items-center gap-1 ${remaining < 5 * 60_000 ? "text-destructive font-medium" : ""}`}>
+      <Timer className="h-3 w-3" />
+      {remaining > 0 ? `Pick up within ${formatRemaining(remaining)}` : "Releasing..."}
+    </span>
+  );
+}
+
+export default function TeamDashboard() {
+  const navigate = useNavigate();
+  const { signOut } = useAuth();
   const [categories, setCategories] = useState<Category[]>([]);
   const [reservations, setReservations] = useState<Reservation[]>([]);
+  const [activeEvent, setActiveEvent] = useState<Event | null>(null);
+  const [eventLimits, setEventLimits] = useState<Record<number, number>>({});
   const [teamName, setTeamName] = useState("Team User");
+  const [memberName, setMemberName] = useState("");
+  const [cancellationWindow, setCancellationWindow] = useState<number | null>(null);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
   const { toast } = useToast();
 
   useEffect(() => {
     loadCategories();
     loadReservations();
     loadProfile();
+    loadSettings();
 
     // Set up real-time subscriptions with debouncing for better performance
     let partsTimeout: NodeJS.Timeout;
@@ -107,17 +151,75 @@ export default function TeamDashboard({ onLogout, onSelectCategory }: TeamDashbo
 
       const { data, error } = await supabase
         .from("profiles")
-        .select("username")
+        .select("username, teams (name)")
         .eq("user_id", user.id)
         .maybeSingle();
 
       if (error) throw error;
-      if (data) setTeamName(data.username);
+      if (data) {
+        setMemberName(data.username);
+        setTeamName(data.teams?.name ?? data.username);
+      }
     } catch (error: any) {
       console.error("Error loading profile:", error);
     }
   };
 
+  const loadSettings = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("app_settings")
+        .select("cancellation_window_minutes")
+        .maybeSingle();
+
+      if (error) throw error;
+      if (data) setCancellationWindow(data.cancellation_window_minutes);
+    } catch (error: any) {
+      console.error("Error loading settings:", error);
+    }
+  };
+
+  const canCancel = (reservation: Reservation) => {
+    if (reservation.status !== "reserved") return false;
+    if (cancellationWindow === null) return true;
+    return new Date(reservation.scanned_at).getTime() + cancellationWindow * 60_000 > Date.now();
+  };
+
+  const isOverdue = (reservation: Reservation) =>
+    reservation.status === "issued" &&
+    !!reservation.due_at &&
+    new Date(reservation.due_at).getTime() < Date.now();
+
+  const handleCancelReservation = async (reservation: Reservation) => {
+    if (!confirm(`Cancel your team's reservation of ${reservation.parts.name}?`)) {
+      return;
+    }
+
+    setCancellingId(reservation.id);
+    try {
+      const { error } = await supabase.rpc("cancel_reservation", {
+        p_tracking_id: reservation.id,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Reservation cancelled",
+        description: `${reservation.parts.name} has been released back to stock.`,
+      });
+
+      loadReservations();
+    } catch (error: any) {
+      toast({
+        title: "Could not cancel reservation",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
   const loadCategories = async () => {
     try {
       const { data, error } = await supabase
@@ -141,33 +243,48 @@ export default function TeamDashboard({ onLogout, onSelectCategory }: TeamDashbo
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
-      // Get user's profile to get their profile id
+      // Reservations belong to the team, so show what every member placed
       const { data: profile } = await supabase
         .from("profiles")
-        .select("id")
+        .select("id, team_id")
         .eq("user_id", user.id)
         .maybeSingle();
 
       if (!profile) return;
 
-      const { data, error } = await supabase
+      // Holdings and limits are both counted within the active event
+      const event = await loadActiveEvent();
+      setActiveEvent(event);
+      setEventLimits(await loadEventLimits(event?.id ?? null));
+
+      let query = supabase
         .from("inventory_tracking")
         .select(`
           id,
           part_id,
           status,
           scanned_at,
+          expires_at,
+          due_at,
           notes,
           admin_remarks,
           parts (
             name,
+            category_id,
             categories (
               name
             )
+          ),
+          profiles (
+            username
           )
         `)
-        .eq("team_user_id", profile.id)
         .order("scanned_at", { ascending: false });
+      if (event) query = query.eq("event_id", event.id);
+
+      const { data, error } = await (profile.team_id
+        ? query.eq("team_id", profile.team_id)
+        : query.eq("team_user_id", profile.id));
 
       if (error) throw error;
       setReservations(data || []);
@@ -180,21 +297,34 @@ export default function TeamDashboard({ onLogout, onSelectCategory }: TeamDashbo
     }
   };
 
+  // Category limits apply to everything the team holds, whoever reserved it
+  const heldByCategory = reservations
+    .filter((reservation) => ["reserved", "issued"].includes(reservation.status))
+    .reduce<Record<number, number>>((held, reservation) => {
+      held[reservation.parts.category_id] = (held[reservation.parts.category_id] || 0) + 1;
+      return held;
+    }, {});
+
   return (
     <div className="min-h-screen bg-background">
       <Header 
         userRole="team" 
         teamName={teamName} 
-        onLogout={onLogout} 
+        onLogout={signOut} 
       />
       
       <main className="container mx-auto px-4 py-6 space-y-8">
         {/* Welcome Section */}
         <div className="text-center space-y-2">
-          <h1 className="text-3xl font-bold">Welcome back, {teamName}!</h1>
+          <h1 className="text-3xl font-bold">Welcome back, {memberName || teamName}!</h1>
           <p className="text-muted-foreground">
             Select a category to browse and reserve components for your project.
           </p>
+          {activeEvent && (
+            <p className="text-sm text-muted-foreground">
+              Current event: <span className="font-medium text-foreground">{activeEvent.name}</span>
+            </p>
+          )}
         </div>
 
         {/* Categories Grid */}
@@ -205,7 +335,7 @@ export default function TeamDashboard({ onLogout, onSelectCategory }: TeamDashbo
               <Card 
                 key={category.id} 
                 className="cursor-pointer transition-all duration-300 hover:shadow-medium hover:scale-105 bg-gradient-card"
-                onClick={() => onSelectCategory(category.id)}
+                onClick={() => navigate(`/team/categories/${category.id}`)}
               >
                 <CardHeader className="pb-3">
                   <div className="flex items-center justify-between">
@@ -219,12 +349,16 @@ export default function TeamDashboard({ onLogout, onSelectCategory }: TeamDashbo
                     {category.description}
                   </CardDescription>
                 </CardHeader>
-                <CardContent className="pt-0">
+                <CardContent className="pt-0 space-y-2">
                   <div className="flex justify-center">
                     <StatusBadge variant="available">
                       Browse Items
                     </StatusBadge>
                   </div>
+                  <p className="text-xs text-center text-muted-foreground">
+                    Team holds {heldByCategory[category.id] || 0} of{" "}
+                    {effectiveCheckoutLimit(eventLimits, category.id, category.checkout_limit)}
+                  </p>
                 </CardContent>
               </Card>
             ))}
@@ -233,7 +367,7 @@ export default function TeamDashboard({ onLogout, onSelectCategory }: TeamDashbo
 
         {/* Reservations History */}
         <section>
-          <h2 className="text-2xl font-semibold mb-6">Your Checkouts</h2>
+          <h2 className="text-2xl font-semibold mb-6">Team Checkouts</h2>
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
@@ -241,7 +375,7 @@ export default function TeamDashboard({ onLogout, onSelectCategory }: TeamDashbo
                 Recent Activity
               </CardTitle>
               <CardDescription>
-                Track your checked out components
+                Track components checked out by everyone on {teamName}
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -261,10 +395,20 @@ export default function TeamDashboard({ onLogout, onSelectCategory }: TeamDashbo
                         <h4 className="font-medium">{reservation.parts.name}</h4>
                         <div className="flex items-center gap-4 text-sm text-muted-foreground">
                           <span>{reservation.parts.categories.name}</span>
+                          <span>Placed by {reservation.profiles?.username || "a former member"}</span>
                           <span className="flex items-center gap-1">
                             <Clock className="h-3 w-3" />
                             {new Date(reservation.scanned_at).toLocaleDateString()} at {new Date(reservation.scanned_at).toLocaleTimeString()}
                           </span>
+                          {reservation.status === "reserved" && reservation.expires_at && (
+                            <ExpiryCountdown expiresAt={reservation.expires_at} />
+                          )}
+                          {reservation.status === "issued" && reservation.due_at && (
+                            <span className="flex items-center gap-1">
+                              <AlarmClock className="h-3 w-3" />
+                              Due {new Date(reservation.due_at).toLocaleString()}
+                            </span>
+                          )}
                         </div>
                         {reservation.notes && (
                           <p className="text-sm text-muted-foreground">Note: {reservation.notes}</p>
@@ -274,7 +418,24 @@ export default function TeamDashboard({ onLogout, onSelectCategory }: TeamDashbo
                         )}
                       </div>
                       <div className="flex items-center gap-3">
-                        <StatusBadge variant={reservation.status === "reserved" ? "reserved" : reservation.status === "issued" ? "default" : "available"}>
+                        {isOverdue(reservation) && (
+                          <StatusBadge variant="out-of-stock">
+                            <AlarmClock className="h-3 w-3 mr-1" />
+                            Overdue
+                          </StatusBadge>
+                        )}
+                        {canCancel(reservation) && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleCancelReservation(reservation)}
+                            disabled={cancellingId === reservation.id}
+                          >
+                            <XCircle className="h-4 w-4 mr-1" />
+                            {cancellingId === reservation.id ? "Cancelling..." : "Cancel"}
+                          </Button>
+                        )}
+                        <StatusBadge variant={reservation.status === "reserved" ? "reserved" : ["issued", "cancelled", "expired"].includes(reservation.status) ? "default" : "available"}>
                           <CheckCircle2 className="h-3 w-3 mr-1" />
                           {reservation.status.charAt(0).toUpperCase() + reservation.status.slice(1)}
                         </StatusBadge>
@@ -0,0 +1,36 @@
+// Audit log entries for changes made by the admin edge functions.
+// The audit triggers take the actor from auth.uid(), which is empty under the
+// service role these functions use, so their changes would otherwise go
+// unrecorded. A failed audit write is logged but doesn't undo the change.
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+
+export interface AuditActor {
+  id: string;
+  username: string;
+}
+
+export interface AuditEntity {
+  type: string;
+  id: string;
+}
+
+export async function recordAudit(
+  adminClient: ReturnType<typeof createClient>,
+  actor: AuditActor,
+  action: string,
+  entity: AuditEntity,
+  before: unknown = null,
+  after: unknown = null,
+): Promise<void> {
+  const { error } = await adminClient.from("audit_log").insert({
+    actor_id: actor.id,
+    actor_username: actor.username,
+    action,
+    entity_type: entity.type,
+    entity_id: entity.id,
+    before,
+    after,
+  });
+  if (error) console.error("Failed to write audit log:", error);
+}
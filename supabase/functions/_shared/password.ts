@@ -0,0 +1,20 @@
+// Temporary passwords handed to users by an admin, who must change them on first sign-in
+
+// Skips look-alike characters so the password survives being read aloud
+const PASSWORD_ALPHABET = "abcdefghjkmnpqrstuvwxyzABCDEFGHJKMNPQRSTUVWXYZ23456789";
+
+// Bytes from this value up are discarded: keeping them would make the first
+// 256 % 54 characters of the alphabet come up more often than the rest
+const UNBIASED_BYTE_LIMIT = 256 - (256 % PASSWORD_ALPHABET.length);
+
+export function generateTemporaryPassword(length = 12): string {
+  let password = "";
+  while (password.length < length) {
+    for (const byte of crypto.getRandomValues(new Uint8Array(length))) {
+      if (byte < UNBIASED_BYTE_LIMIT && password.length < length) {
+        password += PASSWORD_ALPHABET[byte % PASSWORD_ALPHABET.length];
+      }
+    }
+  }
+  return password;
+}
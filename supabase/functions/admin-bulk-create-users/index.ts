@@ -0,0 +1,215 @@
+// admin-bulk-create-users edge function
+// Requires caller to be an authenticated admin. Creates a batch of accounts from a
+// roster, generating a temporary password for each, and reports the outcome per row.
+// Rows may be team members, desk staff or admins.
+// Team members can name their team; teams that don't exist yet are created.
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { recordAudit } from "../_shared/audit.ts";
+import { generateTemporaryPassword } from "../_shared/password.ts";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const MAX_BATCH_SIZE = 200;
+
+// Usernames become the local part of `<username>@team.local`
+const USERNAME_PATTERN = /^[A-Za-z0-9._-]{3,32}$/;
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// Looks up existing teams by name and returns name -> id
+async function findTeams(
+  adminClient: ReturnType<typeof createClient>,
+  names: string[],
+): Promise<Map<string, string>> {
+  if (names.length === 0) return new Map();
+
+  const { data: existing, error: existingErr } = await adminClient
+    .from("teams")
+    .select("id, name")
+    .in("name", names);
+  if (existingErr) throw existingErr;
+
+  return new Map<string, string>((existing || []).map((team: any) => [team.name, team.id]));
+}
+
+interface RowResult {
+  username: string;
+  role: "admin" | "staff" | "team";
+  team: string | null;
+  status: "created" | "failed";
+  password?: string;
+  error?: string;
+}
+
+export async function serve(req: Request): Promise<Response> {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response("Method Not Allowed", { status: 405, headers: corsHeaders });
+  }
+
+  try {
+    const adminClient = createClient(SUPABASE_URL, SERVICE_ROLE_KEY);
+
+    const authHeader = req.headers.get("Authorization") || "";
+    const jwt = authHeader.replace("Bearer ", "");
+    if (!jwt) return json({ error: "Missing Authorization" }, 401);
+
+    // Validate caller user from JWT
+    const { data: userData, error: userErr } = await adminClient.auth.getUser(jwt);
+    if (userErr || !userData.user) return json({ error: "Invalid token" }, 401);
+
+    // Check admin role via profiles (bypass RLS with service role)
+    const { data: profile, error: profileErr } = await adminClient
+      .from("profiles")
+      .select("role, username")
+      .eq("user_id", userData.user.id)
+      .maybeSingle();
+
+    if (profileErr || !profile || profile.role !== "admin") {
+      return json({ error: "Forbidden" }, 403);
+    }
+
+    const body = await req.json();
+    if (!Array.isArray(body.users) || body.users.length === 0) {
+      return json({ error: "No users supplied" }, 400);
+    }
+    if (body.users.length > MAX_BATCH_SIZE) {
+      return json({ error: `At most ${MAX_BATCH_SIZE} users can be created at once` }, 400);
+    }
+
+    const rows = body.users.map((row: any) => {
+      const role: RowResult["role"] = row?.role === "admin" || row?.role === "staff" ? row.role : "team";
+      const team = role === "team" ? String(row?.team || "").trim() : "";
+      return { username: String(row?.username || "").trim(), role, team: team || null };
+    });
+
+    const actor = { id: userData.user.id, username: profile.username };
+    const validNames = rows.filter((row) => USERNAME_PATTERN.test(row.username)).map((row) => row.username);
+
+    // Usernames already taken are reported per row rather than failing the batch.
+    // Sign-in emails ignore case, so the lookup does too; `_` is the only LIKE
+    // wildcard a valid username can contain.
+    const taken = new Set<string>();
+    if (validNames.length > 0) {
+      const { data: existing, error: existingErr } = await adminClient
+        .from("profiles")
+        .select("username")
+        .or(validNames.map((name) => `username.ilike.${name.replace(/_/g, "\\_")}`).join(","));
+      if (existingErr) throw existingErr;
+
+      for (const p of existing || []) taken.add(p.username.toLowerCase());
+    }
+
+    // Settle which rows fail before creating anything
+    const rejections = rows.map((row) => {
+      const key = row.username.toLowerCase();
+      if (!USERNAME_PATTERN.test(row.username)) return "Invalid username";
+      if (taken.has(key)) return "Username already exists";
+      taken.add(key);
+      return null;
+    });
+
+    const teamIds = await findTeams(
+      adminClient,
+      Array.from(new Set(rows.filter((row, index) => row.team && !rejections[index]).map((row) => row.team))),
+    );
+
+    const results: RowResult[] = [];
+
+    // Sequential on purpose: the auth admin API rate-limits bursts of createUser
+    for (const [index, row] of rows.entries()) {
+      if (rejections[index]) {
+        results.push({ ...row, status: "failed", error: rejections[index] });
+        continue;
+      }
+
+      try {
+        const password = generateTemporaryPassword();
+
+        const { data: created, error: createError } = await adminClient.auth.admin.createUser({
+          email: `${row.username}@team.local`,
+          password,
+          email_confirm: true,
+        });
+        if (createError || !created.user) throw createError || new Error("Failed to create user");
+
+        // A missing team is only made once its first account exists, so rows
+        // that fail don't leave empty teams behind
+        let newTeam: { id: string; name: string } | null = null;
+        let newProfile: { id: string };
+        try {
+          if (row.team && !teamIds.has(row.team)) {
+            const { data: team, error: teamErr } = await adminClient
+              .from("teams")
+              .insert({ name: row.team })
+              .select()
+              .single();
+            if (teamErr) throw teamErr;
+
+            newTeam = team;
+            teamIds.set(team.name, team.id);
+          }
+
+          const { data: inserted, error: profileInsertErr } = await adminClient
+            .from("profiles")
+            .insert({
+              user_id: created.user.id,
+              username: row.username,
+              role: row.role,
+              team_id: row.team ? teamIds.get(row.team) : null,
+              must_change_password: true,
+            })
+            .select()
+            .single();
+          if (profileInsertErr) throw profileInsertErr;
+
+          newProfile = inserted;
+        } catch (e) {
+          // Don't leave an auth user behind that nobody can see in User Management
+          await adminClient.auth.admin.deleteUser(created.user.id);
+          if (newTeam) {
+            await adminClient.from("teams").delete().eq("id", newTeam.id);
+            teamIds.delete(newTeam.name);
+          }
+          throw e;
+        }
+
+        if (newTeam) {
+          await recordAudit(adminClient, actor, "insert", { type: "teams", id: newTeam.id }, null, newTeam);
+        }
+        await recordAudit(adminClient, actor, "create_user", { type: "profiles", id: newProfile.id }, null, newProfile);
+
+        results.push({ ...row, status: "created", password });
+      } catch (e: any) {
+        console.error(`Error creating user ${row.username}:`, e);
+        results.push({ ...row, status: "failed", error: e?.message || "Unknown error" });
+      }
+    }
+
+    return json({
+      created: results.filter((r) => r.status === "created").length,
+      failed: results.filter((r) => r.status === "failed").length,
+      results,
+    });
+  } catch (e: any) {
+    console.error("Error creating users:", e);
+    return json({ error: e.message || "Unknown error" }, 500);
+  }
+}
+
+Deno.serve(serve);
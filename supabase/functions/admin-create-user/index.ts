@@ -2,6 +2,7 @@
 // Requires caller to be an authenticated admin. Creates an auth user and matching profile.
 
 import { createClient } from "npm:@supabase/supabase-js@2";
+import { recordAudit } from "../_shared/audit.ts";
 
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
 const SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
@@ -34,7 +35,7 @@ export async function serve(req: Request): Promise<Response> {
     // Check admin role via profiles (bypass RLS with service role)
     const { data: profile, error: profileErr } = await adminClient
       .from("profiles")
-      .select("role")
+      .select("role, username")
       .eq("user_id", userData.user.id)
       .maybeSingle();
 
@@ -45,7 +46,9 @@ export async function serve(req: Request): Promise<Response> {
     const body = await req.json();
     const username = String(body.username || "").trim();
     const password = String(body.password || "").trim();
-    const role = body.role === "admin" ? "admin" : "team";
+    const role = ["admin", "staff"].includes(body.role) ? body.role : "team";
+    // Only team members belong to a team
+    const teamId = role === "team" && body.teamId ? String(body.teamId) : null;
 
     if (!username || username.length < 3) {
       return new Response(JSON.stringify({ error: "Username too short" }), { status: 400 });
@@ -65,13 +68,29 @@ export async function serve(req: Request): Promise<Response> {
     if (createError || !created.user) throw createError || new Error("Failed to create user");
 
     // Insert profile
-    const { error: profileInsertErr } = await adminClient.from("profiles").insert({
-      user_id: created.user.id,
-      username,
-      role,
-    });
+    const { data: newProfile, error: profileInsertErr } = await adminClient
+      .from("profiles")
+      .insert({
+        user_id: created.user.id,
+        username,
+        role,
+        team_id: teamId,
+        // The admin picked this password, so the user replaces it on first login
+        must_change_password: true,
+      })
+      .select()
+      .single();
     if (profileInsertErr) throw profileInsertErr;
 
+    await recordAudit(
+      adminClient,
+      { id: userData.user.id, username: profile.username },
+      "create_user",
+      { type: "profiles", id: newProfile.id },
+      null,
+      newProfile,
+    );
+
     return new Response(JSON.stringify({ email, username, role }), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
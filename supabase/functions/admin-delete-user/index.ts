@@ -2,6 +2,7 @@
 // Requires caller to be an authenticated admin. Deletes both auth user and profile.
 
 import { createClient } from "npm:@supabase/supabase-js@2";
+import { recordAudit } from "../_shared/audit.ts";
 
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
 const SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
@@ -42,7 +43,7 @@ export async function serve(req: Request): Promise<Response> {
     // Check admin role via profiles (bypass RLS with service role)
     const { data: profile, error: profileErr } = await adminClient
       .from("profiles")
-      .select("role")
+      .select("role, username")
       .eq("user_id", userData.user.id)
       .maybeSingle();
 
@@ -66,7 +67,7 @@ export async function serve(req: Request): Promise<Response> {
     // Get the profile to check if user is admin
     const { data: targetProfile, error: targetProfileErr } = await adminClient
       .from("profiles")
-      .select("role, username")
+      .select("*")
       .eq("user_id", userId)
       .maybeSingle();
 
@@ -96,7 +97,13 @@ export async function serve(req: Request): Promise<Response> {
       throw deleteError;
     }
 
-    console.log(`User ${targetProfile.username} (${userId}) deleted by admin ${userData.user.email}`);
+    await recordAudit(
+      adminClient,
+      { id: userData.user.id, username: profile.username },
+      "delete_user",
+      { type: "profiles", id: targetProfile.id },
+      targetProfile,
+    );
 
     return new Response(JSON.stringify({ 
       success: true,
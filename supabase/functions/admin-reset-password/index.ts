@@ -0,0 +1,99 @@
+// admin-reset-password edge function
+// Requires caller to be an authenticated admin. Issues a new temporary password
+// for another user and makes them choose their own on next login.
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { recordAudit } from "../_shared/audit.ts";
+import { generateTemporaryPassword } from "../_shared/password.ts";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+export async function serve(req: Request): Promise<Response> {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response("Method Not Allowed", { status: 405, headers: corsHeaders });
+  }
+
+  try {
+    const adminClient = createClient(SUPABASE_URL, SERVICE_ROLE_KEY);
+
+    const authHeader = req.headers.get("Authorization") || "";
+    const jwt = authHeader.replace("Bearer ", "");
+    if (!jwt) return json({ error: "Missing Authorization" }, 401);
+
+    // Validate caller user from JWT
+    const { data: userData, error: userErr } = await adminClient.auth.getUser(jwt);
+    if (userErr || !userData.user) return json({ error: "Invalid token" }, 401);
+
+    // Check admin role via profiles (bypass RLS with service role)
+    const { data: profile, error: profileErr } = await adminClient
+      .from("profiles")
+      .select("role, username")
+      .eq("user_id", userData.user.id)
+      .maybeSingle();
+
+    if (profileErr || !profile || profile.role !== "admin") {
+      return json({ error: "Forbidden" }, 403);
+    }
+
+    const body = await req.json();
+    const userId = String(body.userId || "").trim();
+
+    if (!userId) return json({ error: "Missing userId" }, 400);
+    if (userId === userData.user.id) {
+      return json({ error: "Use Change Password to update your own password" }, 400);
+    }
+
+    const { data: targetProfile, error: targetProfileErr } = await adminClient
+      .from("profiles")
+      .select("id, username")
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (targetProfileErr) throw targetProfileErr;
+    if (!targetProfile) return json({ error: "User not found" }, 404);
+
+    const password = generateTemporaryPassword();
+
+    const { error: updateErr } = await adminClient.auth.admin.updateUserById(userId, { password });
+    if (updateErr) throw updateErr;
+
+    const { error: flagErr } = await adminClient
+      .from("profiles")
+      .update({ must_change_password: true })
+      .eq("user_id", userId);
+    if (flagErr) throw flagErr;
+
+    await recordAudit(
+      adminClient,
+      { id: userData.user.id, username: profile.username },
+      "reset_password",
+      { type: "profiles", id: targetProfile.id },
+      null,
+      { username: targetProfile.username },
+    );
+
+    return json({ username: targetProfile.username, password });
+  } catch (e: any) {
+    console.error("Error resetting password:", e);
+    return json({ error: e.message || "Unknown error" }, 500);
+  }
+}
+
+Deno.serve(serve);
@@ -1,12 +1,47 @@
 // bootstrap-admin edge function
-// Creates a default admin user if none exists
+// First-run setup. While no admin profile exists, lets the operator create the
+// initial admin with their own username and password. Requires the one-time
+// token configured in the ADMIN_SETUP_TOKEN secret; once an admin exists the
+// function only reports that setup is complete.
 
 import { createClient } from "npm:@supabase/supabase-js@2";
 
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
 const SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+const ADMIN_SETUP_TOKEN = Deno.env.get("ADMIN_SETUP_TOKEN") || "";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// Compare without bailing out on the first differing character
+function tokensMatch(given: string, expected: string): boolean {
+  const a = new TextEncoder().encode(given);
+  const b = new TextEncoder().encode(expected);
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    diff |= (a[i] ?? 0) ^ (b[i] ?? 0);
+  }
+  return diff === 0;
+}
 
 export async function serve(req: Request): Promise<Response> {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response("Method Not Allowed", { status: 405, headers: corsHeaders });
+  }
+
   try {
     const adminClient = createClient(SUPABASE_URL, SERVICE_ROLE_KEY);
 
@@ -19,15 +54,37 @@ export async function serve(req: Request): Promise<Response> {
 
     if (adminsError) throw adminsError;
 
-    if (admins && admins.length > 0) {
-      return new Response(JSON.stringify({ created: false, message: "Admin already exists" }), {
-        headers: { "Content-Type": "application/json" },
-      });
+    const needsSetup = !admins || admins.length === 0;
+    const body = await req.json().catch(() => ({}));
+
+    if (body.action === "status") {
+      return json({ needs_setup: needsSetup, setup_enabled: ADMIN_SETUP_TOKEN.length > 0 });
+    }
+
+    if (!needsSetup) {
+      return json({ error: "Setup has already been completed", code: "setup_complete" }, 409);
+    }
+
+    if (!ADMIN_SETUP_TOKEN) {
+      return json({ error: "Setup is disabled until ADMIN_SETUP_TOKEN is configured", code: "setup_disabled" }, 503);
+    }
+
+    if (!tokensMatch(String(body.setup_token || ""), ADMIN_SETUP_TOKEN)) {
+      return json({ error: "Invalid setup token", code: "invalid_token" }, 403);
+    }
+
+    const username = String(body.username || "").trim();
+    const password = String(body.password || "");
+
+    if (!username || username.length < 3) {
+      return json({ error: "Username too short" }, 400);
+    }
+    if (!password || password.length < 8) {
+      return json({ error: "Password must be at least 8 characters" }, 400);
     }
 
-    // Create the admin auth user
-    const email = "admin@robothon.local";
-    const password = "admin123";
+    // Same username scheme as every other account
+    const email = `${username}@team.local`;
 
     const { data: created, error: createError } = await adminClient.auth.admin.createUser({
       email,
@@ -40,20 +97,19 @@ export async function serve(req: Request): Promise<Response> {
     // Insert profile
     const { error: profileErr } = await adminClient.from("profiles").insert({
       user_id: created.user.id,
-      username: "admin",
+      username,
       role: "admin",
     });
 
-    if (profileErr) throw profileErr;
+    if (profileErr) {
+      // Don't leave an orphaned auth user that blocks retrying with the same name
+      await adminClient.auth.admin.deleteUser(created.user.id);
+      throw profileErr;
+    }
 
-    return new Response(JSON.stringify({ created: true, email, password }), {
-      headers: { "Content-Type": "application/json" },
-    });
+    return json({ created: true, username });
   } catch (e:any) {
-    return new Response(JSON.stringify({ error: e.message || "Unknown error" }), {
-      status: 500,
-      headers: { "Content-Type": "application/json" },
-    });
+    return json({ error: e.message || "Unknown error" }, 500);
   }
 }
 
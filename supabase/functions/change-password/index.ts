@@ -0,0 +1,85 @@
+// change-password edge function
+// Lets a signed-in user replace their password after confirming the current
+// one, and clears the forced-change flag set by admin-created or reset accounts.
+
+import { createClient } from "npm:@supabase/supabase-js@2";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+const ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY")!;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+export async function serve(req: Request): Promise<Response> {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return new Response("Method Not Allowed", { status: 405, headers: corsHeaders });
+  }
+
+  try {
+    const adminClient = createClient(SUPABASE_URL, SERVICE_ROLE_KEY);
+
+    const authHeader = req.headers.get("Authorization") || "";
+    const jwt = authHeader.replace("Bearer ", "");
+    if (!jwt) return json({ error: "Missing Authorization" }, 401);
+
+    // Validate caller user from JWT
+    const { data: userData, error: userErr } = await adminClient.auth.getUser(jwt);
+    if (userErr || !userData.user?.email) return json({ error: "Invalid token" }, 401);
+
+    const body = await req.json();
+    const currentPassword = String(body.current_password || "");
+    const newPassword = String(body.new_password || "");
+
+    if (newPassword.length < 8) {
+      return json({ error: "New password must be at least 8 characters", code: "weak_password" }, 400);
+    }
+    if (newPassword === currentPassword) {
+      return json({ error: "New password must be different from the current one", code: "weak_password" }, 400);
+    }
+
+    // Confirm the current password with a throwaway client so a stolen session
+    // alone is not enough to take over the account
+    const verifyClient = createClient(SUPABASE_URL, ANON_KEY, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+    const { error: verifyErr } = await verifyClient.auth.signInWithPassword({
+      email: userData.user.email,
+      password: currentPassword,
+    });
+    if (verifyErr) {
+      return json({ error: "Current password is incorrect", code: "invalid_password" }, 403);
+    }
+
+    const { error: updateErr } = await adminClient.auth.admin.updateUserById(userData.user.id, {
+      password: newPassword,
+    });
+    if (updateErr) throw updateErr;
+
+    const { error: profileErr } = await adminClient
+      .from("profiles")
+      .update({ must_change_password: false })
+      .eq("user_id", userData.user.id);
+    if (profileErr) throw profileErr;
+
+    return json({ success: true });
+  } catch (e: any) {
+    console.error("Error changing password:", e);
+    return json({ error: e.message || "Unknown error" }, 500);
+  }
+}
+
+Deno.serve(serve);
@@ -1,5 +1,6 @@
 // checkout-item edge function
 // Authenticated team user reserves item(s) - supports both single and bulk checkout
+// The whole cart is reserved atomically by the checkout_cart database function
 
 import { createClient } from "npm:@supabase/supabase-js@2";
 
@@ -11,6 +12,40 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+interface CheckoutItem {
+  part_id: number;
+  quantity: number;
+}
+
+interface CheckoutLine {
+  part_id: number;
+  part_name: string | null;
+  category_id: number | null;
+  category_name: string | null;
+  requested: number;
+  available: number | null;
+  limit: number;
+  outstanding: number;
+  status: "ok" | "not_found" | "checkout_limit_exceeded" | "insufficient_stock";
+  message?: string;
+}
+
+// Raised by transaction_decrement_and_track when a part has no stock left
+const OUT_OF_STOCK_ERRCODE = "RB001";
+
+function describeLine(line: CheckoutLine): string | undefined {
+  switch (line.status) {
+    case "not_found":
+      return "Part not found";
+    case "checkout_limit_exceeded":
+      return `${line.category_name ?? "This category"} allows ${line.limit} item(s) per team; your team already holds ${line.outstanding}.`;
+    case "insufficient_stock":
+      return `Insufficient stock for ${line.part_name}. Available: ${line.available ?? 0}`;
+    default:
+      return undefined;
+  }
+}
+
 export async function serve(req: Request): Promise<Response> {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -36,91 +71,117 @@ export async function serve(req: Request): Promise<Response> {
       .maybeSingle();
     if (profErr || !prof) return new Response(JSON.stringify({ error: "Profile not found" }), { status: 400, headers: corsHeaders });
 
+    // Desk staff hand out parts; they don't reserve them
+    if (prof.role === "staff") {
+      return new Response(JSON.stringify({ error: "Staff accounts can't reserve parts" }), { status: 403, headers: corsHeaders });
+    }
+
     const body = await req.json();
     
     // Support both single item (legacy) and bulk checkout
-    const items = body.items || [{ part_id: Number(body.part_id), quantity: 1 }];
+    const rawItems = body.items || [{ part_id: Number(body.part_id), quantity: 1 }];
+    const items: CheckoutItem[] = Array.isArray(rawItems)
+      ? rawItems.map((item: { part_id: unknown; quantity?: unknown }) => ({
+          part_id: Number(item?.part_id),
+          // Only a missing quantity means one; checkout_cart needs whole numbers
+          quantity: item?.quantity === undefined || item?.quantity === null ? 1 : Number(item.quantity),
+        }))
+      : [];
+
+    const isPositiveInteger = (value: number) => Number.isInteger(value) && value > 0;
+    if (items.length === 0 || items.some((item) => !isPositiveInteger(item.part_id) || !isPositiveInteger(item.quantity))) {
+      return new Response(
+        JSON.stringify({ error: `Invalid part_id or quantity` }), 
+        { status: 400, headers: corsHeaders }
+      );
+    }
     
     console.log('Processing checkout for items:', items);
 
-    // Process each item
-    for (const item of items) {
-      const part_id = Number(item.part_id);
-      const quantity = Number(item.quantity) || 1;
-      
-      if (!part_id || quantity <= 0) {
+    // Reserve the whole cart in one transaction; admins reserving from the
+    // inventory desk are not bound by team limits
+    const { data: result, error: checkoutErr } = await adminClient.rpc("checkout_cart", {
+      p_team_profile_id: prof.id,
+      p_items: items,
+      p_enforce_limits: prof.role !== "admin",
+    });
+    if (checkoutErr?.code === OUT_OF_STOCK_ERRCODE) {
+      // Stock ran out underneath the cart; the transaction rolled back entirely
+      const part_id = Number(checkoutErr.details);
+      const { data: partInfo } = await adminClient
+        .from("parts")
+        .select("name, quantity")
+        .eq("id", part_id)
+        .maybeSingle();
+
+      const line = {
+        part_id,
+        part_name: partInfo?.name ?? null,
+        requested: items.find((item) => item.part_id === part_id)?.quantity ?? 0,
+        available: partInfo?.quantity ?? 0,
+        status: "insufficient_stock",
+      } as CheckoutLine;
+
+      return new Response(
+        JSON.stringify({ error: describeLine(line), code: "out_of_stock", lines: [line] }),
+        { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    if (checkoutErr) throw checkoutErr;
+
+    const lines: CheckoutLine[] = (result.lines || []).map((line: CheckoutLine) => ({
+      ...line,
+      message: describeLine(line),
+    }));
+
+    if (!result.success) {
+      if (result.reason === "not_registered") {
         return new Response(
-          JSON.stringify({ error: `Invalid part_id or quantity` }), 
-          { status: 400, headers: corsHeaders }
+          JSON.stringify({
+            error: `Your team is not registered for ${result.event_name}. Ask an organiser to add it.`,
+            code: "not_registered",
+          }),
+          { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
         );
       }
 
-      // Use a transaction to safely decrement stock and create tracking records
-      // This prevents race conditions from multiple concurrent checkouts
-      console.log(`Processing checkout: ${quantity}x Part ID ${part_id}`);
-
-      // Process each unit atomically with retry logic
-      let retries = 3;
-      for (let i = 0; i < quantity; i++) {
-        let success = false;
-        let lastError = null;
-
-        while (retries > 0 && !success) {
-          const { error: updateErr } = await adminClient.rpc("transaction_decrement_and_track", {
-            p_part_id: part_id,
-            p_team_profile_id: prof.id,
-          });
-
-          if (!updateErr) {
-            success = true;
-            break;
-          }
-
-          lastError = updateErr;
-          console.error(`Checkout attempt failed (${4 - retries}/3):`, updateErr);
-
-          // Check if it's a stock issue (no retry needed)
-          if (updateErr.message?.includes('quantity') || updateErr.code === '23514') {
-            const { data: partInfo } = await adminClient
-              .from("parts")
-              .select("name, quantity")
-              .eq("id", part_id)
-              .maybeSingle();
-            
-            return new Response(
-              JSON.stringify({ 
-                error: `Insufficient stock${partInfo?.name ? ` for ${partInfo.name}` : ''}. Available: ${partInfo?.quantity || 0}` 
-              }), 
-              { status: 400, headers: corsHeaders }
-            );
-          }
-
-          retries--;
-          if (retries > 0) {
-            // Exponential backoff: 100ms, 200ms, 400ms
-            await new Promise(resolve => setTimeout(resolve, Math.pow(2, 3 - retries) * 100));
-          }
-        }
-
-        if (!success) {
-          return new Response(
-            JSON.stringify({ 
-              error: `Checkout failed after retries: ${lastError?.message || 'Unknown error'}` 
-            }), 
-            { status: 500, headers: corsHeaders }
-          );
-        }
+      const failed = lines.filter((line) => line.status !== "ok");
+      console.log('Checkout rejected:', failed);
+
+      if (failed.some((line) => line.status === "checkout_limit_exceeded")) {
+        return new Response(
+          JSON.stringify({ error: "Checkout limit exceeded", code: "checkout_limit_exceeded", lines }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
       }
+
+      const outOfStock = failed.filter((line) => line.status === "insufficient_stock");
+      if (outOfStock.length > 0) {
+        return new Response(
+          JSON.stringify({
+            error: outOfStock.length === 1 ? outOfStock[0].message : "Some items are out of stock",
+            code: "out_of_stock",
+            lines,
+          }),
+          { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ error: failed[0]?.message || "Checkout rejected", code: "not_found", lines }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
     }
 
-    const totalItems = items.reduce((sum: number, item: any) => sum + (Number(item.quantity) || 1), 0);
+    const totalItems = items.reduce((sum, item) => sum + item.quantity, 0);
     console.log('All items checked out successfully. Total:', totalItems);
 
     return new Response(
       JSON.stringify({ 
         success: true,
         message: 'Items checked out successfully',
-        items_count: totalItems
+        items_count: totalItems,
+        lines,
       }), 
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
@@ -0,0 +1,6 @@
+-- checkout-item now enforces checkout_limit against the units a team still holds
+COMMENT ON COLUMN categories.checkout_limit IS 'Maximum number of parts a team can hold (reserved or issued) from this category at any time';
+
+-- Speeds up the per-team outstanding count done on every checkout
+CREATE INDEX IF NOT EXISTS inventory_tracking_team_status_idx
+  ON public.inventory_tracking (team_user_id, status);
@@ -0,0 +1,102 @@
+-- All-or-nothing cart checkout
+-- Locks the team and every requested part, validates stock and category limits
+-- for the whole cart, then reserves every unit or none of them.
+CREATE OR REPLACE FUNCTION public.checkout_cart(
+  p_team_profile_id uuid,
+  p_items jsonb,
+  p_enforce_limits boolean DEFAULT true
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_lines jsonb;
+  v_line record;
+BEGIN
+  -- Serialise checkouts per team so concurrent carts can't both pass the limit check
+  PERFORM 1 FROM profiles WHERE id = p_team_profile_id FOR UPDATE;
+
+  -- Lock parts in id order so overlapping carts can't deadlock
+  PERFORM 1
+  FROM parts
+  WHERE id IN (SELECT (item->>'part_id')::integer FROM jsonb_array_elements(p_items) AS item)
+  ORDER BY id
+  FOR UPDATE;
+
+  WITH requested AS (
+    SELECT (item->>'part_id')::integer AS part_id,
+           SUM((item->>'quantity')::integer)::integer AS quantity
+    FROM jsonb_array_elements(p_items) AS item
+    GROUP BY 1
+  ),
+  lines AS (
+    SELECT r.part_id,
+           r.quantity AS requested,
+           p.name AS part_name,
+           p.quantity AS available,
+           c.id AS category_id,
+           c.name AS category_name,
+           COALESCE(c.checkout_limit, 10) AS checkout_limit,
+           SUM(r.quantity) OVER (PARTITION BY c.id) AS category_requested
+    FROM requested r
+    LEFT JOIN parts p ON p.id = r.part_id
+    LEFT JOIN categories c ON c.id = p.category_id
+  ),
+  held AS (
+    SELECT p.category_id, COUNT(*)::integer AS outstanding
+    FROM inventory_tracking t
+    JOIN parts p ON p.id = t.part_id
+    WHERE t.team_user_id = p_team_profile_id
+      AND t.status IN ('reserved', 'issued')
+    GROUP BY p.category_id
+  )
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'part_id', l.part_id,
+      'part_name', l.part_name,
+      'category_id', l.category_id,
+      'category_name', l.category_name,
+      'requested', l.requested,
+      'available', l.available,
+      'limit', l.checkout_limit,
+      'outstanding', COALESCE(h.outstanding, 0),
+      'status', CASE
+        WHEN l.part_name IS NULL THEN 'not_found'
+        WHEN p_enforce_limits AND COALESCE(h.outstanding, 0) + l.category_requested > l.checkout_limit
+          THEN 'checkout_limit_exceeded'
+        WHEN l.available < l.requested THEN 'insufficient_stock'
+        ELSE 'ok'
+      END
+    )
+    ORDER BY l.part_id
+  )
+  INTO v_lines
+  FROM lines l
+  LEFT JOIN held h ON h.category_id = l.category_id;
+
+  IF v_lines IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'lines', '[]'::jsonb);
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM jsonb_array_elements(v_lines) AS line WHERE line->>'status' <> 'ok') THEN
+    RETURN jsonb_build_object('success', false, 'lines', v_lines);
+  END IF;
+
+  FOR v_line IN
+    SELECT (line->>'part_id')::integer AS part_id, (line->>'requested')::integer AS requested
+    FROM jsonb_array_elements(v_lines) AS line
+  LOOP
+    FOR i IN 1..v_line.requested LOOP
+      PERFORM transaction_decrement_and_track(v_line.part_id, p_team_profile_id);
+    END LOOP;
+  END LOOP;
+
+  RETURN jsonb_build_object('success', true, 'lines', v_lines);
+END;
+$function$;
+
+-- Only the checkout-item edge function (service role) may reserve stock
+REVOKE EXECUTE ON FUNCTION public.checkout_cart(uuid, jsonb, boolean) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.transaction_decrement_and_track(integer, uuid) FROM PUBLIC, anon, authenticated;
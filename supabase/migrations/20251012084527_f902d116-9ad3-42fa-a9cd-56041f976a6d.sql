@@ -0,0 +1,26 @@
+-- Stop recording reservations when nothing was decremented
+-- The UPDATE ... WHERE quantity > 0 silently matched zero rows once stock ran
+-- out, and the tracking row was inserted anyway. Raise a dedicated error code
+-- (RB001, part id in DETAIL) so callers can report the out-of-stock part.
+CREATE OR REPLACE FUNCTION public.transaction_decrement_and_track(p_part_id integer, p_team_profile_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  -- Decrement part quantity
+  UPDATE parts
+  SET quantity = quantity - 1
+  WHERE id = p_part_id AND quantity > 0;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Part % is out of stock', p_part_id
+      USING ERRCODE = 'RB001', DETAIL = p_part_id::text, HINT = 'out_of_stock';
+  END IF;
+
+  -- Insert tracking record with 'reserved' status
+  INSERT INTO inventory_tracking (part_id, team_user_id, status, scanned_at)
+  VALUES (p_part_id, p_team_profile_id, 'reserved', now());
+END;
+$function$;
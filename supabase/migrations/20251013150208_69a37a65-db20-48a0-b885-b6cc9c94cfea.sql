@@ -0,0 +1,120 @@
+-- Reservation lifecycle state machine
+--   reserved -> issued -> returned | lost | damaged
+--   reserved -> cancelled
+-- Stock effects now live in triggers so every path (checkout, manual entry,
+-- admin edits) keeps parts.quantity consistent:
+--   * a new reserved/issued row takes one unit out of stock
+--   * returned/cancelled puts the unit back
+--   * lost/damaged records the unit in the write-off ledger
+
+ALTER TABLE inventory_tracking DROP CONSTRAINT IF EXISTS inventory_tracking_status_check;
+ALTER TABLE inventory_tracking ADD CONSTRAINT inventory_tracking_status_check
+  CHECK (status IN ('reserved', 'issued', 'returned', 'lost', 'damaged', 'cancelled'));
+
+-- Write-off ledger for units that will never come back
+CREATE TABLE public.stock_write_offs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tracking_id UUID REFERENCES public.inventory_tracking(id) ON DELETE SET NULL,
+  part_id INTEGER REFERENCES public.parts(id) ON DELETE SET NULL,
+  team_user_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('lost', 'damaged')),
+  quantity INTEGER NOT NULL DEFAULT 1,
+  notes TEXT,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.stock_write_offs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow admin to view stock write-offs"
+ON public.stock_write_offs
+FOR SELECT
+TO authenticated
+USING (public.get_user_role(auth.uid()) = 'admin');
+
+CREATE OR REPLACE FUNCTION public.inventory_status_transition_allowed(p_from text, p_to text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT p_from = p_to
+    OR (p_from = 'reserved' AND p_to IN ('issued', 'cancelled'))
+    OR (p_from = 'issued' AND p_to IN ('returned', 'lost', 'damaged'));
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_inventory_status_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status NOT IN ('reserved', 'issued') THEN
+      RAISE EXCEPTION 'New inventory records must start as reserved or issued, not %', NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+  ELSIF NOT inventory_status_transition_allowed(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Illegal status transition from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.apply_inventory_stock_effects()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.part_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    UPDATE parts
+    SET quantity = quantity - 1
+    WHERE id = NEW.part_id AND quantity > 0;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Part % is out of stock', NEW.part_id
+        USING ERRCODE = 'RB001', DETAIL = NEW.part_id::text, HINT = 'out_of_stock';
+    END IF;
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status IN ('returned', 'cancelled') THEN
+      UPDATE parts SET quantity = quantity + 1 WHERE id = NEW.part_id;
+    ELSIF NEW.status IN ('lost', 'damaged') THEN
+      INSERT INTO stock_write_offs (tracking_id, part_id, team_user_id, reason, notes, created_by)
+      VALUES (NEW.id, NEW.part_id, NEW.team_user_id, NEW.status, NEW.admin_remarks, auth.uid());
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER enforce_inventory_status_transition
+  BEFORE INSERT OR UPDATE OF status ON public.inventory_tracking
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_inventory_status_transition();
+
+CREATE TRIGGER apply_inventory_stock_effects
+  AFTER INSERT OR UPDATE OF status ON public.inventory_tracking
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_inventory_stock_effects();
+
+-- Stock is now taken by the insert trigger; keep the RPC as the reservation entry point
+CREATE OR REPLACE FUNCTION public.transaction_decrement_and_track(p_part_id integer, p_team_profile_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  -- Insert tracking record with 'reserved' status; raises RB001 when out of stock
+  INSERT INTO inventory_tracking (part_id, team_user_id, status, scanned_at)
+  VALUES (p_part_id, p_team_profile_id, 'reserved', now());
+END;
+$function$;
@@ -0,0 +1,76 @@
+-- System-wide settings (single row) and team self-service cancellation
+
+CREATE TABLE public.app_settings (
+  id BOOLEAN NOT NULL DEFAULT true PRIMARY KEY CHECK (id),
+  cancellation_window_minutes INTEGER DEFAULT 30 CHECK (cancellation_window_minutes >= 0),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.app_settings.cancellation_window_minutes IS 'Minutes after reserving during which a team may cancel; NULL means any time while still reserved';
+
+INSERT INTO public.app_settings (id) VALUES (true);
+
+ALTER TABLE public.app_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated users to view settings"
+ON public.app_settings
+FOR SELECT
+TO authenticated
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Allow admin to update settings"
+ON public.app_settings
+FOR UPDATE
+TO authenticated
+USING (public.get_user_role(auth.uid()) = 'admin');
+
+CREATE TRIGGER update_app_settings_updated_at
+  BEFORE UPDATE ON public.app_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Lets a team cancel one of its own reservations before pickup.
+-- The status trigger puts the unit back into stock.
+CREATE OR REPLACE FUNCTION public.cancel_reservation(p_tracking_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_profile_id uuid;
+  v_record inventory_tracking%ROWTYPE;
+  v_window integer;
+BEGIN
+  SELECT id INTO v_profile_id FROM profiles WHERE user_id = auth.uid();
+
+  SELECT * INTO v_record FROM inventory_tracking WHERE id = p_tracking_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reservation not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_profile_id IS NULL OR v_record.team_user_id IS DISTINCT FROM v_profile_id THEN
+    RAISE EXCEPTION 'You can only cancel your own reservations' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF v_record.status <> 'reserved' THEN
+    RAISE EXCEPTION 'Only reserved items can be cancelled (this one is %)', v_record.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT cancellation_window_minutes INTO v_window FROM app_settings;
+
+  IF v_window IS NOT NULL AND v_record.scanned_at + make_interval(mins => v_window) < now() THEN
+    RAISE EXCEPTION 'The % minute cancellation window has passed; ask a hardware admin', v_window
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE inventory_tracking
+  SET status = 'cancelled'
+  WHERE id = p_tracking_id;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.cancel_reservation(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.cancel_reservation(uuid) TO authenticated;
@@ -0,0 +1,117 @@
+-- Reservation expiry
+-- Reservations in categories with a reservation_ttl_minutes get an expires_at
+-- timestamp; a pg_cron job moves unclaimed ones to 'expired', which returns the
+-- unit to stock through the status trigger.
+
+ALTER TABLE public.categories
+ADD COLUMN reservation_ttl_minutes INTEGER CHECK (reservation_ttl_minutes > 0);
+
+COMMENT ON COLUMN public.categories.reservation_ttl_minutes IS 'Minutes a reservation is held before it is released back to stock; NULL means reservations never expire';
+
+ALTER TABLE public.inventory_tracking
+ADD COLUMN expires_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS inventory_tracking_reserved_expiry_idx
+  ON public.inventory_tracking (expires_at)
+  WHERE status = 'reserved';
+
+ALTER TABLE inventory_tracking DROP CONSTRAINT IF EXISTS inventory_tracking_status_check;
+ALTER TABLE inventory_tracking ADD CONSTRAINT inventory_tracking_status_check
+  CHECK (status IN ('reserved', 'issued', 'returned', 'lost', 'damaged', 'cancelled', 'expired'));
+
+CREATE OR REPLACE FUNCTION public.inventory_status_transition_allowed(p_from text, p_to text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT p_from = p_to
+    OR (p_from = 'reserved' AND p_to IN ('issued', 'cancelled', 'expired'))
+    OR (p_from = 'issued' AND p_to IN ('returned', 'lost', 'damaged'));
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_inventory_stock_effects()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.part_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    UPDATE parts
+    SET quantity = quantity - 1
+    WHERE id = NEW.part_id AND quantity > 0;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Part % is out of stock', NEW.part_id
+        USING ERRCODE = 'RB001', DETAIL = NEW.part_id::text, HINT = 'out_of_stock';
+    END IF;
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status IN ('returned', 'cancelled', 'expired') THEN
+      UPDATE parts SET quantity = quantity + 1 WHERE id = NEW.part_id;
+    ELSIF NEW.status IN ('lost', 'damaged') THEN
+      INSERT INTO stock_write_offs (tracking_id, part_id, team_user_id, reason, notes, created_by)
+      VALUES (NEW.id, NEW.part_id, NEW.team_user_id, NEW.status, NEW.admin_remarks, auth.uid());
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.set_reservation_expiry()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.status = 'reserved' AND NEW.expires_at IS NULL AND NEW.part_id IS NOT NULL THEN
+    SELECT NEW.scanned_at + make_interval(mins => c.reservation_ttl_minutes)
+    INTO NEW.expires_at
+    FROM parts p
+    JOIN categories c ON c.id = p.category_id
+    WHERE p.id = NEW.part_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER set_reservation_expiry
+  BEFORE INSERT ON public.inventory_tracking
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_reservation_expiry();
+
+CREATE OR REPLACE FUNCTION public.release_expired_reservations()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_released integer;
+BEGIN
+  UPDATE inventory_tracking
+  SET status = 'expired'
+  WHERE status = 'reserved'
+    AND expires_at IS NOT NULL
+    AND expires_at <= now();
+
+  GET DIAGNOSTICS v_released = ROW_COUNT;
+  RETURN v_released;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.release_expired_reservations() FROM PUBLIC, anon, authenticated;
+
+-- Sweep for expired reservations every minute
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'release-expired-reservations',
+  '* * * * *',
+  $$SELECT public.release_expired_reservations()$$
+);
@@ -0,0 +1,41 @@
+-- Due dates for issued items
+-- Each category can define a loan period; when a unit is issued its due_at is
+-- set from that period unless the admin already supplied one.
+
+ALTER TABLE public.categories
+ADD COLUMN loan_period_hours INTEGER CHECK (loan_period_hours > 0);
+
+COMMENT ON COLUMN public.categories.loan_period_hours IS 'Hours an issued part may be kept before it is overdue; NULL means no due date';
+
+ALTER TABLE public.inventory_tracking
+ADD COLUMN due_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS inventory_tracking_issued_due_idx
+  ON public.inventory_tracking (due_at)
+  WHERE status = 'issued';
+
+CREATE OR REPLACE FUNCTION public.set_loan_due_date()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.status = 'issued'
+     AND NEW.due_at IS NULL
+     AND NEW.part_id IS NOT NULL
+     AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'issued') THEN
+    SELECT now() + make_interval(hours => c.loan_period_hours)
+    INTO NEW.due_at
+    FROM parts p
+    JOIN categories c ON c.id = p.category_id
+    WHERE p.id = NEW.part_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER set_loan_due_date
+  BEFORE INSERT OR UPDATE OF status ON public.inventory_tracking
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_loan_due_date();
@@ -0,0 +1,66 @@
+-- Pickup station: hand over a team's reserved parts by scanning barcodes
+-- Flips the team's oldest matching reservation to 'issued'. Returns a report
+-- instead of raising so the station can show a warning and keep scanning.
+CREATE OR REPLACE FUNCTION public.issue_reserved_by_barcode(p_team_profile_id uuid, p_barcode text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_part parts%ROWTYPE;
+  v_tracking_id uuid;
+  v_remaining integer;
+BEGIN
+  IF get_user_role(auth.uid()) IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can issue parts' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO v_part FROM parts WHERE barcode = trim(p_barcode);
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('matched', false, 'reason', 'unknown_barcode', 'barcode', p_barcode);
+  END IF;
+
+  SELECT id INTO v_tracking_id
+  FROM inventory_tracking
+  WHERE team_user_id = p_team_profile_id
+    AND part_id = v_part.id
+    AND status = 'reserved'
+  ORDER BY scanned_at
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  IF v_tracking_id IS NULL THEN
+    RETURN jsonb_build_object(
+      'matched', false,
+      'reason', 'not_reserved',
+      'barcode', p_barcode,
+      'part_id', v_part.id,
+      'part_name', v_part.name
+    );
+  END IF;
+
+  UPDATE inventory_tracking
+  SET status = 'issued'
+  WHERE id = v_tracking_id;
+
+  SELECT COUNT(*)::integer INTO v_remaining
+  FROM inventory_tracking
+  WHERE team_user_id = p_team_profile_id
+    AND part_id = v_part.id
+    AND status = 'reserved';
+
+  RETURN jsonb_build_object(
+    'matched', true,
+    'tracking_id', v_tracking_id,
+    'barcode', p_barcode,
+    'part_id', v_part.id,
+    'part_name', v_part.name,
+    'remaining', v_remaining
+  );
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.issue_reserved_by_barcode(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.issue_reserved_by_barcode(uuid, text) TO authenticated;
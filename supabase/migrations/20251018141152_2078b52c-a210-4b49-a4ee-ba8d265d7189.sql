@@ -0,0 +1,76 @@
+-- Return desk: check parts back in by scanning their barcode
+-- Picks the oldest issued unit of the scanned part (optionally for one team)
+-- and marks it returned, or damaged when the condition check fails. The status
+-- trigger restores stock for returns and writes damaged units off.
+CREATE OR REPLACE FUNCTION public.return_issued_by_barcode(
+  p_barcode text,
+  p_team_profile_id uuid DEFAULT NULL,
+  p_condition text DEFAULT 'ok'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_part parts%ROWTYPE;
+  v_record inventory_tracking%ROWTYPE;
+  v_status text;
+  v_username text;
+BEGIN
+  IF get_user_role(auth.uid()) IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can return parts' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_condition NOT IN ('ok', 'damaged') THEN
+    RAISE EXCEPTION 'Unknown condition %', p_condition USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  SELECT * INTO v_part FROM parts WHERE barcode = trim(p_barcode);
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('matched', false, 'reason', 'unknown_barcode', 'barcode', p_barcode);
+  END IF;
+
+  SELECT * INTO v_record
+  FROM inventory_tracking
+  WHERE part_id = v_part.id
+    AND status = 'issued'
+    AND (p_team_profile_id IS NULL OR team_user_id = p_team_profile_id)
+  ORDER BY scanned_at
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'matched', false,
+      'reason', 'not_issued',
+      'barcode', p_barcode,
+      'part_id', v_part.id,
+      'part_name', v_part.name
+    );
+  END IF;
+
+  v_status := CASE WHEN p_condition = 'damaged' THEN 'damaged' ELSE 'returned' END;
+
+  UPDATE inventory_tracking
+  SET status = v_status
+  WHERE id = v_record.id;
+
+  SELECT username INTO v_username FROM profiles WHERE id = v_record.team_user_id;
+
+  RETURN jsonb_build_object(
+    'matched', true,
+    'tracking_id', v_record.id,
+    'barcode', p_barcode,
+    'part_id', v_part.id,
+    'part_name', v_part.name,
+    'team_user_id', v_record.team_user_id,
+    'team_username', v_username,
+    'status', v_status
+  );
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.return_issued_by_barcode(text, uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.return_issued_by_barcode(text, uuid, text) TO authenticated;
@@ -0,0 +1,83 @@
+-- Atomic barcode restock
+-- The restock scanner used to read parts.quantity and write back quantity + 1,
+-- which loses increments when two admins scan the same part at once. Restocks
+-- now go through restock_part_by_barcode(), which increments in a single
+-- UPDATE and records who added how much in the stock movement ledger.
+
+CREATE TABLE public.stock_movements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  part_id INTEGER REFERENCES public.parts(id) ON DELETE SET NULL,
+  delta INTEGER NOT NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('restock')),
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_stock_movements_part_id ON public.stock_movements (part_id, created_at DESC);
+
+ALTER TABLE public.stock_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow admin to view stock movements"
+ON public.stock_movements
+FOR SELECT
+TO authenticated
+USING (public.get_user_role(auth.uid()) = 'admin');
+
+CREATE OR REPLACE FUNCTION public.restock_part_by_barcode(
+  p_barcode text,
+  p_quantity integer DEFAULT 1,
+  p_category_id integer DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_part parts%ROWTYPE;
+BEGIN
+  IF get_user_role(auth.uid()) IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can restock parts' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity < 1 THEN
+    RAISE EXCEPTION 'Restock quantity must be at least 1' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  SELECT * INTO v_part FROM parts WHERE barcode = trim(p_barcode);
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('matched', false, 'reason', 'unknown_barcode', 'barcode', p_barcode);
+  END IF;
+
+  IF p_category_id IS NOT NULL AND v_part.category_id IS DISTINCT FROM p_category_id THEN
+    RETURN jsonb_build_object(
+      'matched', false,
+      'reason', 'wrong_category',
+      'barcode', p_barcode,
+      'part_id', v_part.id,
+      'part_name', v_part.name
+    );
+  END IF;
+
+  UPDATE parts
+  SET quantity = quantity + p_quantity
+  WHERE id = v_part.id
+  RETURNING * INTO v_part;
+
+  INSERT INTO stock_movements (part_id, delta, reason, created_by)
+  VALUES (v_part.id, p_quantity, 'restock', auth.uid());
+
+  RETURN jsonb_build_object(
+    'matched', true,
+    'barcode', p_barcode,
+    'part_id', v_part.id,
+    'part_name', v_part.name,
+    'added', p_quantity,
+    'quantity', v_part.quantity
+  );
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.restock_part_by_barcode(text, integer, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.restock_part_by_barcode(text, integer, integer) TO authenticated;
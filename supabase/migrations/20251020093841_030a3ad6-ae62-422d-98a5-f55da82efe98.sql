@@ -0,0 +1,193 @@
+-- Stock movement ledger for every change to parts.quantity
+-- A trigger on parts records each quantity change with the resulting balance.
+-- Code paths that know why stock moved (reservations, returns, restocks) tag
+-- the change through set_stock_movement_context(); anything untagged, such as
+-- an admin editing the quantity directly, is logged as a manual correction.
+
+ALTER TABLE public.stock_movements DROP CONSTRAINT IF EXISTS stock_movements_reason_check;
+ALTER TABLE public.stock_movements ADD CONSTRAINT stock_movements_reason_check
+  CHECK (reason IN (
+    'initial',
+    'restock',
+    'reservation',
+    'return',
+    'cancellation',
+    'expiry',
+    'write_off',
+    'manual_correction'
+  ));
+
+ALTER TABLE public.stock_movements
+  ADD COLUMN balance_after INTEGER,
+  ADD COLUMN tracking_id UUID REFERENCES public.inventory_tracking(id) ON DELETE SET NULL;
+
+-- Opening balance so every part's history starts from a known count
+INSERT INTO public.stock_movements (part_id, delta, reason, balance_after, created_at)
+SELECT id, quantity, 'initial', quantity, now()
+FROM public.parts;
+
+CREATE OR REPLACE FUNCTION public.set_stock_movement_context(p_reason text, p_tracking_id uuid DEFAULT NULL)
+RETURNS void
+LANGUAGE sql
+SET search_path TO 'public'
+AS $$
+  SELECT set_config('app.stock_movement_reason', coalesce(p_reason, ''), true),
+         set_config('app.stock_movement_tracking_id', coalesce(p_tracking_id::text, ''), true);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_stock_movement_context(text, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.log_stock_movement()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_delta integer;
+  v_reason text;
+  v_tracking_id text;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    v_delta := NEW.quantity;
+  ELSE
+    v_delta := NEW.quantity - OLD.quantity;
+  END IF;
+
+  IF v_delta = 0 AND TG_OP = 'UPDATE' THEN
+    RETURN NEW;
+  END IF;
+
+  v_reason := nullif(current_setting('app.stock_movement_reason', true), '');
+  v_tracking_id := nullif(current_setting('app.stock_movement_tracking_id', true), '');
+
+  INSERT INTO stock_movements (part_id, delta, reason, balance_after, tracking_id, created_by)
+  VALUES (
+    NEW.id,
+    v_delta,
+    coalesce(v_reason, CASE WHEN TG_OP = 'INSERT' THEN 'initial' ELSE 'manual_correction' END),
+    NEW.quantity,
+    v_tracking_id::uuid,
+    auth.uid()
+  );
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER log_stock_movement
+  AFTER INSERT OR UPDATE OF quantity ON public.parts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_stock_movement();
+
+CREATE OR REPLACE FUNCTION public.apply_inventory_stock_effects()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_balance integer;
+BEGIN
+  IF NEW.part_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM set_stock_movement_context('reservation', NEW.id);
+
+    UPDATE parts
+    SET quantity = quantity - 1
+    WHERE id = NEW.part_id AND quantity > 0;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Part % is out of stock', NEW.part_id
+        USING ERRCODE = 'RB001', DETAIL = NEW.part_id::text, HINT = 'out_of_stock';
+    END IF;
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status IN ('returned', 'cancelled', 'expired') THEN
+      PERFORM set_stock_movement_context(
+        CASE NEW.status
+          WHEN 'returned' THEN 'return'
+          WHEN 'cancelled' THEN 'cancellation'
+          ELSE 'expiry'
+        END,
+        NEW.id
+      );
+
+      UPDATE parts SET quantity = quantity + 1 WHERE id = NEW.part_id;
+    ELSIF NEW.status IN ('lost', 'damaged') THEN
+      INSERT INTO stock_write_offs (tracking_id, part_id, team_user_id, reason, notes, created_by)
+      VALUES (NEW.id, NEW.part_id, NEW.team_user_id, NEW.status, NEW.admin_remarks, auth.uid());
+
+      -- The unit already left stock when it was reserved, so the balance does
+      -- not change; the entry explains why it will never come back.
+      SELECT quantity INTO v_balance FROM parts WHERE id = NEW.part_id;
+
+      INSERT INTO stock_movements (part_id, delta, reason, balance_after, tracking_id, created_by)
+      VALUES (NEW.part_id, 0, 'write_off', v_balance, NEW.id, auth.uid());
+    END IF;
+  END IF;
+
+  PERFORM set_stock_movement_context(NULL);
+  RETURN NEW;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.restock_part_by_barcode(
+  p_barcode text,
+  p_quantity integer DEFAULT 1,
+  p_category_id integer DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_part parts%ROWTYPE;
+BEGIN
+  IF get_user_role(auth.uid()) IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can restock parts' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity < 1 THEN
+    RAISE EXCEPTION 'Restock quantity must be at least 1' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  SELECT * INTO v_part FROM parts WHERE barcode = trim(p_barcode);
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('matched', false, 'reason', 'unknown_barcode', 'barcode', p_barcode);
+  END IF;
+
+  IF p_category_id IS NOT NULL AND v_part.category_id IS DISTINCT FROM p_category_id THEN
+    RETURN jsonb_build_object(
+      'matched', false,
+      'reason', 'wrong_category',
+      'barcode', p_barcode,
+      'part_id', v_part.id,
+      'part_name', v_part.name
+    );
+  END IF;
+
+  -- log_stock_movement() writes the ledger entry
+  PERFORM set_stock_movement_context('restock');
+
+  UPDATE parts
+  SET quantity = quantity + p_quantity
+  WHERE id = v_part.id
+  RETURNING * INTO v_part;
+
+  PERFORM set_stock_movement_context(NULL);
+
+  RETURN jsonb_build_object(
+    'matched', true,
+    'barcode', p_barcode,
+    'part_id', v_part.id,
+    'part_name', v_part.name,
+    'added', p_quantity,
+    'quantity', v_part.quantity
+  );
+END;
+$function$;
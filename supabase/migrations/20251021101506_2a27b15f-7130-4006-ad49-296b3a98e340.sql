@@ -0,0 +1,243 @@
+-- Physical stocktake sessions
+-- Admins open a session for a set of categories, count what is on the shelves
+-- and commit the variances in one go. Reserved units have not been picked up
+-- yet, so the expected shelf count is parts.quantity plus open reservations;
+-- issued units are out with the teams and are not expected on the shelf.
+
+CREATE TABLE public.stocktakes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'committed', 'cancelled')),
+  category_ids INTEGER[] NOT NULL,
+  notes TEXT,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  committed_by UUID,
+  committed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE public.stocktake_counts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  stocktake_id UUID NOT NULL REFERENCES public.stocktakes(id) ON DELETE CASCADE,
+  part_id INTEGER NOT NULL REFERENCES public.parts(id) ON DELETE CASCADE,
+  counted INTEGER NOT NULL DEFAULT 0 CHECK (counted >= 0),
+  -- Filled in on commit so the session keeps a record of what was adjusted
+  expected INTEGER,
+  adjustment INTEGER,
+  counted_by UUID,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (stocktake_id, part_id)
+);
+
+ALTER TABLE public.stocktakes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stocktake_counts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow admin to manage stocktakes"
+ON public.stocktakes
+FOR ALL
+TO authenticated
+USING (public.get_user_role(auth.uid()) = 'admin')
+WITH CHECK (public.get_user_role(auth.uid()) = 'admin');
+
+CREATE POLICY "Allow admin to manage stocktake counts"
+ON public.stocktake_counts
+FOR ALL
+TO authenticated
+USING (public.get_user_role(auth.uid()) = 'admin')
+WITH CHECK (public.get_user_role(auth.uid()) = 'admin');
+
+CREATE TRIGGER update_stocktake_counts_updated_at
+  BEFORE UPDATE ON public.stocktake_counts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Stocktake corrections point back at their session
+ALTER TABLE public.stock_movements
+  ADD COLUMN stocktake_id UUID REFERENCES public.stocktakes(id) ON DELETE SET NULL;
+
+DROP FUNCTION IF EXISTS public.set_stock_movement_context(text, uuid);
+
+CREATE OR REPLACE FUNCTION public.set_stock_movement_context(
+  p_reason text,
+  p_tracking_id uuid DEFAULT NULL,
+  p_stocktake_id uuid DEFAULT NULL
+)
+RETURNS void
+LANGUAGE sql
+SET search_path TO 'public'
+AS $$
+  SELECT set_config('app.stock_movement_reason', coalesce(p_reason, ''), true),
+         set_config('app.stock_movement_tracking_id', coalesce(p_tracking_id::text, ''), true),
+         set_config('app.stock_movement_stocktake_id', coalesce(p_stocktake_id::text, ''), true);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_stock_movement_context(text, uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.log_stock_movement()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_delta integer;
+  v_reason text;
+  v_tracking_id text;
+  v_stocktake_id text;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    v_delta := NEW.quantity;
+  ELSE
+    v_delta := NEW.quantity - OLD.quantity;
+  END IF;
+
+  IF v_delta = 0 AND TG_OP = 'UPDATE' THEN
+    RETURN NEW;
+  END IF;
+
+  v_reason := nullif(current_setting('app.stock_movement_reason', true), '');
+  v_tracking_id := nullif(current_setting('app.stock_movement_tracking_id', true), '');
+  v_stocktake_id := nullif(current_setting('app.stock_movement_stocktake_id', true), '');
+
+  INSERT INTO stock_movements (part_id, delta, reason, balance_after, tracking_id, stocktake_id, created_by)
+  VALUES (
+    NEW.id,
+    v_delta,
+    coalesce(v_reason, CASE WHEN TG_OP = 'INSERT' THEN 'initial' ELSE 'manual_correction' END),
+    NEW.quantity,
+    v_tracking_id::uuid,
+    v_stocktake_id::uuid,
+    auth.uid()
+  );
+
+  RETURN NEW;
+END;
+$function$;
+
+-- Count one scanned unit (or a multiple) without racing other counters
+CREATE OR REPLACE FUNCTION public.record_stocktake_scan(
+  p_stocktake_id uuid,
+  p_barcode text,
+  p_quantity integer DEFAULT 1
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_stocktake stocktakes%ROWTYPE;
+  v_part parts%ROWTYPE;
+  v_counted integer;
+BEGIN
+  IF get_user_role(auth.uid()) IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can record stocktake counts' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity < 1 THEN
+    RAISE EXCEPTION 'Counted quantity must be at least 1' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  SELECT * INTO v_stocktake FROM stocktakes WHERE id = p_stocktake_id;
+
+  IF NOT FOUND OR v_stocktake.status <> 'open' THEN
+    RAISE EXCEPTION 'Stocktake is not open' USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO v_part FROM parts WHERE barcode = trim(p_barcode);
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('matched', false, 'reason', 'unknown_barcode', 'barcode', p_barcode);
+  END IF;
+
+  IF NOT v_part.category_id = ANY (v_stocktake.category_ids) THEN
+    RETURN jsonb_build_object(
+      'matched', false,
+      'reason', 'wrong_category',
+      'barcode', p_barcode,
+      'part_id', v_part.id,
+      'part_name', v_part.name
+    );
+  END IF;
+
+  INSERT INTO stocktake_counts (stocktake_id, part_id, counted, counted_by)
+  VALUES (p_stocktake_id, v_part.id, p_quantity, auth.uid())
+  ON CONFLICT (stocktake_id, part_id)
+  DO UPDATE SET counted = stocktake_counts.counted + EXCLUDED.counted,
+                counted_by = EXCLUDED.counted_by
+  RETURNING counted INTO v_counted;
+
+  RETURN jsonb_build_object(
+    'matched', true,
+    'barcode', p_barcode,
+    'part_id', v_part.id,
+    'part_name', v_part.name,
+    'counted', v_counted
+  );
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.commit_stocktake(p_stocktake_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_stocktake stocktakes%ROWTYPE;
+  v_count RECORD;
+  v_expected integer;
+  v_adjustment integer;
+  v_adjusted integer := 0;
+BEGIN
+  IF get_user_role(auth.uid()) IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can commit stocktakes' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO v_stocktake FROM stocktakes WHERE id = p_stocktake_id FOR UPDATE;
+
+  IF NOT FOUND OR v_stocktake.status <> 'open' THEN
+    RAISE EXCEPTION 'Stocktake is not open' USING ERRCODE = 'check_violation';
+  END IF;
+
+  FOR v_count IN
+    SELECT sc.id, sc.part_id, sc.counted, p.quantity
+    FROM stocktake_counts sc
+    JOIN parts p ON p.id = sc.part_id
+    WHERE sc.stocktake_id = p_stocktake_id
+    ORDER BY sc.part_id
+    FOR UPDATE OF p
+  LOOP
+    v_expected := v_count.quantity + (
+      SELECT count(*)::integer
+      FROM inventory_tracking
+      WHERE part_id = v_count.part_id AND status = 'reserved'
+    );
+    -- Never drive available stock below zero; a shortfall larger than the
+    -- available stock means reserved units are missing too
+    v_adjustment := greatest(v_count.counted - v_expected, -v_count.quantity);
+
+    IF v_adjustment <> 0 THEN
+      PERFORM set_stock_movement_context('manual_correction', NULL, p_stocktake_id);
+      UPDATE parts SET quantity = quantity + v_adjustment WHERE id = v_count.part_id;
+      v_adjusted := v_adjusted + 1;
+    END IF;
+
+    UPDATE stocktake_counts
+    SET expected = v_expected, adjustment = v_adjustment
+    WHERE id = v_count.id;
+  END LOOP;
+
+  PERFORM set_stock_movement_context(NULL);
+
+  UPDATE stocktakes
+  SET status = 'committed', committed_by = auth.uid(), committed_at = now()
+  WHERE id = p_stocktake_id;
+
+  RETURN jsonb_build_object('success', true, 'adjusted', v_adjusted);
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.record_stocktake_scan(uuid, text, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_stocktake_scan(uuid, text, integer) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.commit_stocktake(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.commit_stocktake(uuid) TO authenticated;
@@ -0,0 +1,96 @@
+-- Audit log of admin actions
+-- Row changes made by an admin on the core tables are captured by a trigger
+-- with before/after snapshots. Only statements the admin issued directly are
+-- logged (pg_trigger_depth() = 1); side effects of other triggers, such as the
+-- stock decrement behind a new reservation, are already explained by the row
+-- that caused them. User creation and deletion run with the service role, so
+-- the admin edge functions write those entries themselves.
+
+CREATE TABLE public.audit_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  actor_id UUID,
+  actor_username TEXT,
+  action TEXT NOT NULL,
+  entity_type TEXT NOT NULL,
+  entity_id TEXT,
+  before JSONB,
+  after JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_audit_log_created_at ON public.audit_log (created_at DESC);
+CREATE INDEX idx_audit_log_entity ON public.audit_log (entity_type, entity_id);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow admin to view audit log"
+ON public.audit_log
+FOR SELECT
+TO authenticated
+USING (public.get_user_role(auth.uid()) = 'admin');
+
+CREATE OR REPLACE FUNCTION public.audit_row_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_before jsonb;
+  v_after jsonb;
+BEGIN
+  IF pg_trigger_depth() > 1 OR v_actor IS NULL OR get_user_role(v_actor) IS DISTINCT FROM 'admin' THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    v_before := to_jsonb(OLD);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    v_after := to_jsonb(NEW);
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND v_before - 'updated_at' = v_after - 'updated_at' THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO audit_log (actor_id, actor_username, action, entity_type, entity_id, before, after)
+  VALUES (
+    v_actor,
+    (SELECT username FROM profiles WHERE user_id = v_actor),
+    lower(TG_OP),
+    TG_TABLE_NAME,
+    coalesce(v_after, v_before)->>'id',
+    v_before,
+    v_after
+  );
+
+  RETURN NULL;
+END;
+$function$;
+
+CREATE TRIGGER audit_categories
+  AFTER INSERT OR UPDATE OR DELETE ON public.categories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER audit_parts
+  AFTER INSERT OR UPDATE OR DELETE ON public.parts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER audit_inventory_tracking
+  AFTER INSERT OR UPDATE OR DELETE ON public.inventory_tracking
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER audit_profiles
+  AFTER INSERT OR UPDATE OR DELETE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER audit_app_settings
+  AFTER UPDATE ON public.app_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_row_change();
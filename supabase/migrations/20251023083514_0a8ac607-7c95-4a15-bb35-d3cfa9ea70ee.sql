@@ -0,0 +1,13 @@
+-- Admins now sign in through the same <username>@team.local scheme as teams.
+-- Move the account created by the old bootstrap function onto that scheme so
+-- it can still log in; its username was always "admin".
+UPDATE auth.users u
+SET email = 'admin@team.local'
+WHERE u.email = 'admin@robothon.local'
+  AND NOT EXISTS (SELECT 1 FROM auth.users WHERE email = 'admin@team.local');
+
+UPDATE auth.identities i
+SET identity_data = jsonb_set(i.identity_data, '{email}', '"admin@team.local"')
+WHERE i.provider = 'email'
+  AND i.identity_data->>'email' = 'admin@robothon.local'
+  AND EXISTS (SELECT 1 FROM auth.users u WHERE u.id = i.user_id AND u.email = 'admin@team.local');
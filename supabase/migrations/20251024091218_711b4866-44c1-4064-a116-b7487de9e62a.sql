@@ -0,0 +1,27 @@
+-- Temporary passwords and forced password changes
+-- Accounts created or reset by an admin get a temporary password and must
+-- choose their own on next login. The flag is cleared by the change-password
+-- edge function once the new password is set.
+ALTER TABLE public.profiles
+  ADD COLUMN must_change_password BOOLEAN NOT NULL DEFAULT false;
+
+-- The account from the old bootstrap function still has its published
+-- default password
+UPDATE public.profiles p
+SET must_change_password = true
+FROM auth.users u
+WHERE u.id = p.user_id
+  AND u.email = 'admin@team.local'
+  AND p.username = 'admin'
+  AND p.role = 'admin';
+
+-- Users could update every column of their own profile, including role and
+-- must_change_password. Nothing on the client needs that, so only admins may
+-- update profiles now.
+DROP POLICY IF EXISTS "Allow authenticated users to update their own profile" ON public.profiles;
+
+CREATE POLICY "Allow admin to update profiles"
+ON public.profiles
+FOR UPDATE
+TO authenticated
+USING (public.get_user_role(auth.uid()) = 'admin');
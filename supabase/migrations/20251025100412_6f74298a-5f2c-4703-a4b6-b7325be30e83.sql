@@ -0,0 +1,405 @@
+-- Multi-member teams
+-- A team used to be a single profile, so members shared one login. Teams now
+-- live in their own table and every member has their own profile pointing at
+-- it. Reservations belong to the team (team_id) and keep the member who placed
+-- them in team_user_id. Category checkout limits are counted per team.
+
+CREATE TABLE public.teams (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.profiles
+  ADD COLUMN team_id UUID REFERENCES public.teams(id) ON DELETE SET NULL;
+
+ALTER TABLE public.inventory_tracking
+  ADD COLUMN team_id UUID REFERENCES public.teams(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.inventory_tracking.team_id IS 'Team that owns the reservation';
+COMMENT ON COLUMN public.inventory_tracking.team_user_id IS 'Team member who placed the reservation';
+
+CREATE INDEX idx_profiles_team_id ON public.profiles (team_id);
+CREATE INDEX idx_inventory_tracking_team_status ON public.inventory_tracking (team_id, status);
+
+CREATE TRIGGER update_teams_updated_at
+  BEFORE UPDATE ON public.teams
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER audit_teams
+  AFTER INSERT OR UPDATE OR DELETE ON public.teams
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_row_change();
+
+-- Every existing team login becomes a one-member team of the same name
+INSERT INTO public.teams (name)
+SELECT username FROM public.profiles WHERE role = 'team'
+ON CONFLICT (name) DO NOTHING;
+
+UPDATE public.profiles p
+SET team_id = t.id
+FROM public.teams t
+WHERE p.role = 'team' AND t.name = p.username;
+
+UPDATE public.inventory_tracking it
+SET team_id = p.team_id
+FROM public.profiles p
+WHERE p.id = it.team_user_id;
+
+-- Security definer so policies on profiles can use it without recursing
+CREATE OR REPLACE FUNCTION public.current_team_id()
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT team_id FROM public.profiles WHERE user_id = auth.uid() LIMIT 1;
+$$;
+
+ALTER TABLE public.teams ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow admin to manage teams"
+ON public.teams
+FOR ALL
+TO authenticated
+USING (public.get_user_role(auth.uid()) = 'admin')
+WITH CHECK (public.get_user_role(auth.uid()) = 'admin');
+
+CREATE POLICY "Allow members to view their own team"
+ON public.teams
+FOR SELECT
+TO authenticated
+USING (id = public.current_team_id());
+
+-- Members see who on their team placed each reservation
+CREATE POLICY "Allow team members to view their teammates"
+ON public.profiles
+FOR SELECT
+TO authenticated
+USING (team_id IS NOT NULL AND team_id = public.current_team_id());
+
+DROP POLICY IF EXISTS "Allow teams to view their own inventory" ON public.inventory_tracking;
+
+CREATE POLICY "Allow teams to view their own inventory"
+ON public.inventory_tracking
+FOR SELECT
+TO authenticated
+USING (
+  team_id = public.current_team_id()
+  OR team_user_id = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+);
+
+-- New reservations inherit the team of the member who placed them
+CREATE OR REPLACE FUNCTION public.set_reservation_team()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.team_id IS NULL AND NEW.team_user_id IS NOT NULL THEN
+    SELECT team_id INTO NEW.team_id FROM profiles WHERE id = NEW.team_user_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER set_reservation_team
+  BEFORE INSERT ON public.inventory_tracking
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_reservation_team();
+
+-- Category limits now cover everything the member's team holds. Members
+-- without a team are still limited on their own reservations.
+CREATE OR REPLACE FUNCTION public.checkout_cart(
+  p_team_profile_id uuid,
+  p_items jsonb,
+  p_enforce_limits boolean DEFAULT true
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_team_id uuid;
+  v_lines jsonb;
+  v_line record;
+BEGIN
+  SELECT team_id INTO v_team_id FROM profiles WHERE id = p_team_profile_id FOR UPDATE;
+
+  -- Serialise checkouts per team so two members can't both pass the limit check
+  IF v_team_id IS NOT NULL THEN
+    PERFORM 1 FROM teams WHERE id = v_team_id FOR UPDATE;
+  END IF;
+
+  -- Lock parts in id order so overlapping carts can't deadlock
+  PERFORM 1
+  FROM parts
+  WHERE id IN (SELECT (item->>'part_id')::integer FROM jsonb_array_elements(p_items) AS item)
+  ORDER BY id
+  FOR UPDATE;
+
+  WITH requested AS (
+    SELECT (item->>'part_id')::integer AS part_id,
+           SUM((item->>'quantity')::integer)::integer AS quantity
+    FROM jsonb_array_elements(p_items) AS item
+    GROUP BY 1
+  ),
+  lines AS (
+    SELECT r.part_id,
+           r.quantity AS requested,
+           p.name AS part_name,
+           p.quantity AS available,
+           c.id AS category_id,
+           c.name AS category_name,
+           COALESCE(c.checkout_limit, 10) AS checkout_limit,
+           SUM(r.quantity) OVER (PARTITION BY c.id) AS category_requested
+    FROM requested r
+    LEFT JOIN parts p ON p.id = r.part_id
+    LEFT JOIN categories c ON c.id = p.category_id
+  ),
+  held AS (
+    SELECT p.category_id, COUNT(*)::integer AS outstanding
+    FROM inventory_tracking t
+    JOIN parts p ON p.id = t.part_id
+    WHERE (t.team_id = v_team_id OR (v_team_id IS NULL AND t.team_user_id = p_team_profile_id))
+      AND t.status IN ('reserved', 'issued')
+    GROUP BY p.category_id
+  )
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'part_id', l.part_id,
+      'part_name', l.part_name,
+      'category_id', l.category_id,
+      'category_name', l.category_name,
+      'requested', l.requested,
+      'available', l.available,
+      'limit', l.checkout_limit,
+      'outstanding', COALESCE(h.outstanding, 0),
+      'status', CASE
+        WHEN l.part_name IS NULL THEN 'not_found'
+        WHEN p_enforce_limits AND COALESCE(h.outstanding, 0) + l.category_requested > l.checkout_limit
+          THEN 'checkout_limit_exceeded'
+        WHEN l.available < l.requested THEN 'insufficient_stock'
+        ELSE 'ok'
+      END
+    )
+    ORDER BY l.part_id
+  )
+  INTO v_lines
+  FROM lines l
+  LEFT JOIN held h ON h.category_id = l.category_id;
+
+  IF v_lines IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'lines', '[]'::jsonb);
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM jsonb_array_elements(v_lines) AS line WHERE line->>'status' <> 'ok') THEN
+    RETURN jsonb_build_object('success', false, 'lines', v_lines);
+  END IF;
+
+  FOR v_line IN
+    SELECT (line->>'part_id')::integer AS part_id, (line->>'requested')::integer AS requested
+    FROM jsonb_array_elements(v_lines) AS line
+  LOOP
+    FOR i IN 1..v_line.requested LOOP
+      PERFORM transaction_decrement_and_track(v_line.part_id, p_team_profile_id);
+    END LOOP;
+  END LOOP;
+
+  RETURN jsonb_build_object('success', true, 'lines', v_lines);
+END;
+$function$;
+
+-- Any member may cancel a reservation their team placed
+CREATE OR REPLACE FUNCTION public.cancel_reservation(p_tracking_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_profile_id uuid;
+  v_team_id uuid;
+  v_record inventory_tracking%ROWTYPE;
+  v_window integer;
+BEGIN
+  SELECT id, team_id INTO v_profile_id, v_team_id FROM profiles WHERE user_id = auth.uid();
+
+  SELECT * INTO v_record FROM inventory_tracking WHERE id = p_tracking_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reservation not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_profile_id IS NULL
+    OR NOT COALESCE(v_record.team_user_id = v_profile_id OR v_record.team_id = v_team_id, false) THEN
+    RAISE EXCEPTION 'You can only cancel your team''s reservations' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF v_record.status <> 'reserved' THEN
+    RAISE EXCEPTION 'Only reserved items can be cancelled (this one is %)', v_record.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT cancellation_window_minutes INTO v_window FROM app_settings;
+
+  IF v_window IS NOT NULL AND v_record.scanned_at + make_interval(mins => v_window) < now() THEN
+    RAISE EXCEPTION 'The % minute cancellation window has passed; ask a hardware admin', v_window
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE inventory_tracking
+  SET status = 'cancelled'
+  WHERE id = p_tracking_id;
+END;
+$function$;
+
+-- Pickup and return now work on teams, so the parameter changes meaning and name
+DROP FUNCTION public.issue_reserved_by_barcode(uuid, text);
+
+CREATE FUNCTION public.issue_reserved_by_barcode(p_team_id uuid, p_barcode text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_part parts%ROWTYPE;
+  v_tracking_id uuid;
+  v_remaining integer;
+BEGIN
+  IF get_user_role(auth.uid()) IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can issue parts' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO v_part FROM parts WHERE barcode = trim(p_barcode);
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('matched', false, 'reason', 'unknown_barcode', 'barcode', p_barcode);
+  END IF;
+
+  SELECT id INTO v_tracking_id
+  FROM inventory_tracking
+  WHERE team_id = p_team_id
+    AND part_id = v_part.id
+    AND status = 'reserved'
+  ORDER BY scanned_at
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  IF v_tracking_id IS NULL THEN
+    RETURN jsonb_build_object(
+      'matched', false,
+      'reason', 'not_reserved',
+      'barcode', p_barcode,
+      'part_id', v_part.id,
+      'part_name', v_part.name
+    );
+  END IF;
+
+  UPDATE inventory_tracking
+  SET status = 'issued'
+  WHERE id = v_tracking_id;
+
+  SELECT COUNT(*)::integer INTO v_remaining
+  FROM inventory_tracking
+  WHERE team_id = p_team_id
+    AND part_id = v_part.id
+    AND status = 'reserved';
+
+  RETURN jsonb_build_object(
+    'matched', true,
+    'tracking_id', v_tracking_id,
+    'barcode', p_barcode,
+    'part_id', v_part.id,
+    'part_name', v_part.name,
+    'remaining', v_remaining
+  );
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.issue_reserved_by_barcode(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.issue_reserved_by_barcode(uuid, text) TO authenticated;
+
+DROP FUNCTION public.return_issued_by_barcode(text, uuid, text);
+
+CREATE FUNCTION public.return_issued_by_barcode(
+  p_barcode text,
+  p_team_id uuid DEFAULT NULL,
+  p_condition text DEFAULT 'ok'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_part parts%ROWTYPE;
+  v_record inventory_tracking%ROWTYPE;
+  v_status text;
+  v_team_name text;
+  v_member_username text;
+BEGIN
+  IF get_user_role(auth.uid()) IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can return parts' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_condition NOT IN ('ok', 'damaged') THEN
+    RAISE EXCEPTION 'Unknown condition %', p_condition USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  SELECT * INTO v_part FROM parts WHERE barcode = trim(p_barcode);
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('matched', false, 'reason', 'unknown_barcode', 'barcode', p_barcode);
+  END IF;
+
+  SELECT * INTO v_record
+  FROM inventory_tracking
+  WHERE part_id = v_part.id
+    AND status = 'issued'
+    AND (p_team_id IS NULL OR team_id = p_team_id)
+  ORDER BY scanned_at
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'matched', false,
+      'reason', 'not_issued',
+      'barcode', p_barcode,
+      'part_id', v_part.id,
+      'part_name', v_part.name
+    );
+  END IF;
+
+  v_status := CASE WHEN p_condition = 'damaged' THEN 'damaged' ELSE 'returned' END;
+
+  UPDATE inventory_tracking
+  SET status = v_status
+  WHERE id = v_record.id;
+
+  SELECT name INTO v_team_name FROM teams WHERE id = v_record.team_id;
+  SELECT username INTO v_member_username FROM profiles WHERE id = v_record.team_user_id;
+
+  RETURN jsonb_build_object(
+    'matched', true,
+    'tracking_id', v_record.id,
+    'barcode', p_barcode,
+    'part_id', v_part.id,
+    'part_name', v_part.name,
+    'team_id', v_record.team_id,
+    'team_name', v_team_name,
+    'member_username', v_member_username,
+    'status', v_status
+  );
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.return_issued_by_barcode(text, uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.return_issued_by_barcode(text, uuid, text) TO authenticated;
@@ -0,0 +1,265 @@
+-- Events (Robothon editions) as the scope for reservations
+-- Each event has dates, a roster of participating teams and optional
+-- per-category checkout limits that override the category default. At most
+-- one event is active; new reservations are stamped with it, only teams on
+-- its roster may check out, and limits are counted within it.
+
+CREATE TABLE public.events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  starts_on DATE,
+  ends_on DATE,
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (ends_on IS NULL OR starts_on IS NULL OR ends_on >= starts_on)
+);
+
+CREATE UNIQUE INDEX idx_events_single_active ON public.events (is_active) WHERE is_active;
+
+CREATE TABLE public.event_teams (
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (event_id, team_id)
+);
+
+CREATE TABLE public.event_category_limits (
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  category_id INTEGER NOT NULL REFERENCES public.categories(id) ON DELETE CASCADE,
+  checkout_limit INTEGER NOT NULL CHECK (checkout_limit >= 0),
+  PRIMARY KEY (event_id, category_id)
+);
+
+ALTER TABLE public.inventory_tracking
+  ADD COLUMN event_id UUID REFERENCES public.events(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_inventory_tracking_event_status ON public.inventory_tracking (event_id, status);
+
+CREATE TRIGGER update_events_updated_at
+  BEFORE UPDATE ON public.events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER audit_events
+  AFTER INSERT OR UPDATE OR DELETE ON public.events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.audit_row_change();
+
+ALTER TABLE public.events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.event_teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.event_category_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated users to view events"
+ON public.events
+FOR SELECT
+TO authenticated
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Allow admin to manage events"
+ON public.events
+FOR ALL
+TO authenticated
+USING (public.get_user_role(auth.uid()) = 'admin')
+WITH CHECK (public.get_user_role(auth.uid()) = 'admin');
+
+CREATE POLICY "Allow authenticated users to view event rosters"
+ON public.event_teams
+FOR SELECT
+TO authenticated
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Allow admin to manage event rosters"
+ON public.event_teams
+FOR ALL
+TO authenticated
+USING (public.get_user_role(auth.uid()) = 'admin')
+WITH CHECK (public.get_user_role(auth.uid()) = 'admin');
+
+CREATE POLICY "Allow authenticated users to view event limits"
+ON public.event_category_limits
+FOR SELECT
+TO authenticated
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Allow admin to manage event limits"
+ON public.event_category_limits
+FOR ALL
+TO authenticated
+USING (public.get_user_role(auth.uid()) = 'admin')
+WITH CHECK (public.get_user_role(auth.uid()) = 'admin');
+
+-- Everything recorded so far belongs to one opening event with every team on it
+INSERT INTO public.events (name, starts_on, is_active)
+SELECT 'Robothon ' || to_char(COALESCE(MIN(scanned_at), now()), 'YYYY'),
+       COALESCE(MIN(scanned_at), now())::date,
+       true
+FROM public.inventory_tracking;
+
+INSERT INTO public.event_teams (event_id, team_id)
+SELECT e.id, t.id
+FROM public.events e
+CROSS JOIN public.teams t;
+
+UPDATE public.inventory_tracking
+SET event_id = (SELECT id FROM public.events WHERE is_active);
+
+-- New reservations belong to whichever event is active when they are made
+CREATE OR REPLACE FUNCTION public.set_reservation_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.event_id IS NULL THEN
+    SELECT id INTO NEW.event_id FROM events WHERE is_active;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER set_reservation_event
+  BEFORE INSERT ON public.inventory_tracking
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_reservation_event();
+
+-- Makes one event active. The others are cleared first so the single-active
+-- index is never violated part way through. NULL leaves no event active.
+CREATE OR REPLACE FUNCTION public.activate_event(p_event_id uuid DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF get_user_role(auth.uid()) IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can change the active event' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE events SET is_active = false WHERE is_active AND id IS DISTINCT FROM p_event_id;
+  UPDATE events SET is_active = true WHERE id = p_event_id AND NOT is_active;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.activate_event(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.activate_event(uuid) TO authenticated;
+
+-- Checkout now respects the active event's roster and limits. Limits count
+-- what the team holds within the active event only.
+CREATE OR REPLACE FUNCTION public.checkout_cart(
+  p_team_profile_id uuid,
+  p_items jsonb,
+  p_enforce_limits boolean DEFAULT true
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_team_id uuid;
+  v_event events%ROWTYPE;
+  v_lines jsonb;
+  v_line record;
+BEGIN
+  SELECT team_id INTO v_team_id FROM profiles WHERE id = p_team_profile_id FOR UPDATE;
+
+  -- Serialise checkouts per team so two members can't both pass the limit check
+  IF v_team_id IS NOT NULL THEN
+    PERFORM 1 FROM teams WHERE id = v_team_id FOR UPDATE;
+  END IF;
+
+  SELECT * INTO v_event FROM events WHERE is_active;
+
+  IF p_enforce_limits AND v_event.id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM event_teams WHERE event_id = v_event.id AND team_id = v_team_id
+  ) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'reason', 'not_registered',
+      'event_name', v_event.name,
+      'lines', '[]'::jsonb
+    );
+  END IF;
+
+  -- Lock parts in id order so overlapping carts can't deadlock
+  PERFORM 1
+  FROM parts
+  WHERE id IN (SELECT (item->>'part_id')::integer FROM jsonb_array_elements(p_items) AS item)
+  ORDER BY id
+  FOR UPDATE;
+
+  WITH requested AS (
+    SELECT (item->>'part_id')::integer AS part_id,
+           SUM((item->>'quantity')::integer)::integer AS quantity
+    FROM jsonb_array_elements(p_items) AS item
+    GROUP BY 1
+  ),
+  lines AS (
+    SELECT r.part_id,
+           r.quantity AS requested,
+           p.name AS part_name,
+           p.quantity AS available,
+           c.id AS category_id,
+           c.name AS category_name,
+           COALESCE(ecl.checkout_limit, c.checkout_limit, 10) AS checkout_limit,
+           SUM(r.quantity) OVER (PARTITION BY c.id) AS category_requested
+    FROM requested r
+    LEFT JOIN parts p ON p.id = r.part_id
+    LEFT JOIN categories c ON c.id = p.category_id
+    LEFT JOIN event_category_limits ecl ON ecl.event_id = v_event.id AND ecl.category_id = c.id
+  ),
+  held AS (
+    SELECT p.category_id, COUNT(*)::integer AS outstanding
+    FROM inventory_tracking t
+    JOIN parts p ON p.id = t.part_id
+    WHERE (t.team_id = v_team_id OR (v_team_id IS NULL AND t.team_user_id = p_team_profile_id))
+      AND t.event_id IS NOT DISTINCT FROM v_event.id
+      AND t.status IN ('reserved', 'issued')
+    GROUP BY p.category_id
+  )
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'part_id', l.part_id,
+      'part_name', l.part_name,
+      'category_id', l.category_id,
+      'category_name', l.category_name,
+      'requested', l.requested,
+      'available', l.available,
+      'limit', l.checkout_limit,
+      'outstanding', COALESCE(h.outstanding, 0),
+      'status', CASE
+        WHEN l.part_name IS NULL THEN 'not_found'
+        WHEN p_enforce_limits AND COALESCE(h.outstanding, 0) + l.category_requested > l.checkout_limit
+          THEN 'checkout_limit_exceeded'
+        WHEN l.available < l.requested THEN 'insufficient_stock'
+        ELSE 'ok'
+      END
+    )
+    ORDER BY l.part_id
+  )
+  INTO v_lines
+  FROM lines l
+  LEFT JOIN held h ON h.category_id = l.category_id;
+
+  IF v_lines IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'lines', '[]'::jsonb);
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM jsonb_array_elements(v_lines) AS line WHERE line->>'status' <> 'ok') THEN
+    RETURN jsonb_build_object('success', false, 'lines', v_lines);
+  END IF;
+
+  FOR v_line IN
+    SELECT (line->>'part_id')::integer AS part_id, (line->>'requested')::integer AS requested
+    FROM jsonb_array_elements(v_lines) AS line
+  LOOP
+    FOR i IN 1..v_line.requested LOOP
+      PERFORM transaction_decrement_and_track(v_line.part_id, p_team_profile_id);
+    END LOOP;
+  END LOOP;
+
+  RETURN jsonb_build_object('success', true, 'lines', v_lines);
+END;
+$function$;
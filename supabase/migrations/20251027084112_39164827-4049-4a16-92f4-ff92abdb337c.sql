@@ -0,0 +1,5 @@
+-- Desk staff role for volunteers running pickup and returns
+-- Added on its own because a new enum value can't be used in the same
+-- transaction that creates it; the policies follow in the next migration.
+
+ALTER TYPE public.user_role ADD VALUE IF NOT EXISTS 'staff';
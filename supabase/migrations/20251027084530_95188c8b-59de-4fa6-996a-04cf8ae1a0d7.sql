@@ -0,0 +1,238 @@
+-- Desk staff permissions
+-- Staff run the pickup station and return desk: they can look up teams,
+-- members and reservations and issue or return items by barcode. Managing
+-- users, categories, parts, events and settings stays with admins, as does
+-- every admin-* edge function.
+
+-- NULL-safe so callers without a profile are refused
+CREATE OR REPLACE FUNCTION public.is_admin_or_staff(user_uuid uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT COALESCE(public.get_user_role(user_uuid) IN ('admin', 'staff'), false);
+$$;
+
+CREATE POLICY "Allow staff to view all inventory tracking"
+ON public.inventory_tracking
+FOR SELECT
+TO authenticated
+USING (public.get_user_role(auth.uid()) = 'staff');
+
+CREATE POLICY "Allow staff to view all profiles"
+ON public.profiles
+FOR SELECT
+TO authenticated
+USING (public.get_user_role(auth.uid()) = 'staff');
+
+CREATE POLICY "Allow staff to view teams"
+ON public.teams
+FOR SELECT
+TO authenticated
+USING (public.get_user_role(auth.uid()) = 'staff');
+
+-- Pickup and return keep their signatures, so the existing grants still apply
+CREATE OR REPLACE FUNCTION public.issue_reserved_by_barcode(p_team_id uuid, p_barcode text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_part parts%ROWTYPE;
+  v_tracking_id uuid;
+  v_remaining integer;
+BEGIN
+  IF NOT is_admin_or_staff(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins and desk staff can issue parts' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT * INTO v_part FROM parts WHERE barcode = trim(p_barcode);
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('matched', false, 'reason', 'unknown_barcode', 'barcode', p_barcode);
+  END IF;
+
+  SELECT id INTO v_tracking_id
+  FROM inventory_tracking
+  WHERE team_id = p_team_id
+    AND part_id = v_part.id
+    AND status = 'reserved'
+  ORDER BY scanned_at
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  IF v_tracking_id IS NULL THEN
+    RETURN jsonb_build_object(
+      'matched', false,
+      'reason', 'not_reserved',
+      'barcode', p_barcode,
+      'part_id', v_part.id,
+      'part_name', v_part.name
+    );
+  END IF;
+
+  UPDATE inventory_tracking
+  SET status = 'issued'
+  WHERE id = v_tracking_id;
+
+  SELECT COUNT(*)::integer INTO v_remaining
+  FROM inventory_tracking
+  WHERE team_id = p_team_id
+    AND part_id = v_part.id
+    AND status = 'reserved';
+
+  RETURN jsonb_build_object(
+    'matched', true,
+    'tracking_id', v_tracking_id,
+    'barcode', p_barcode,
+    'part_id', v_part.id,
+    'part_name', v_part.name,
+    'remaining', v_remaining
+  );
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.return_issued_by_barcode(
+  p_barcode text,
+  p_team_id uuid DEFAULT NULL,
+  p_condition text DEFAULT 'ok'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_part parts%ROWTYPE;
+  v_record inventory_tracking%ROWTYPE;
+  v_status text;
+  v_team_name text;
+  v_member_username text;
+BEGIN
+  IF NOT is_admin_or_staff(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins and desk staff can return parts' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_condition NOT IN ('ok', 'damaged') THEN
+    RAISE EXCEPTION 'Unknown condition %', p_condition USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  SELECT * INTO v_part FROM parts WHERE barcode = trim(p_barcode);
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('matched', false, 'reason', 'unknown_barcode', 'barcode', p_barcode);
+  END IF;
+
+  SELECT * INTO v_record
+  FROM inventory_tracking
+  WHERE part_id = v_part.id
+    AND status = 'issued'
+    AND (p_team_id IS NULL OR team_id = p_team_id)
+  ORDER BY scanned_at
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'matched', false,
+      'reason', 'not_issued',
+      'barcode', p_barcode,
+      'part_id', v_part.id,
+      'part_name', v_part.name
+    );
+  END IF;
+
+  v_status := CASE WHEN p_condition = 'damaged' THEN 'damaged' ELSE 'returned' END;
+
+  UPDATE inventory_tracking
+  SET status = v_status
+  WHERE id = v_record.id;
+
+  SELECT name INTO v_team_name FROM teams WHERE id = v_record.team_id;
+  SELECT username INTO v_member_username FROM profiles WHERE id = v_record.team_user_id;
+
+  RETURN jsonb_build_object(
+    'matched', true,
+    'tracking_id', v_record.id,
+    'barcode', p_barcode,
+    'part_id', v_part.id,
+    'part_name', v_part.name,
+    'team_id', v_record.team_id,
+    'team_name', v_team_name,
+    'member_username', v_member_username,
+    'status', v_status
+  );
+END;
+$function$;
+
+-- Hand over a single reservation without scanning, for parts with no barcode.
+-- Staff can't update inventory_tracking directly, so the pickup station uses this.
+CREATE OR REPLACE FUNCTION public.issue_reserved_record(p_tracking_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NOT is_admin_or_staff(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins and desk staff can issue parts' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE inventory_tracking
+  SET status = 'issued'
+  WHERE id = p_tracking_id
+    AND status = 'reserved';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This reservation is no longer waiting for pickup' USING ERRCODE = 'check_violation';
+  END IF;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.issue_reserved_record(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.issue_reserved_record(uuid) TO authenticated;
+
+-- Staff actions at the desks are audited alongside admin actions
+CREATE OR REPLACE FUNCTION public.audit_row_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_actor uuid := auth.uid();
+  v_before jsonb;
+  v_after jsonb;
+BEGIN
+  IF pg_trigger_depth() > 1 OR v_actor IS NULL OR NOT is_admin_or_staff(v_actor) THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    v_before := to_jsonb(OLD);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    v_after := to_jsonb(NEW);
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND v_before - 'updated_at' = v_after - 'updated_at' THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO audit_log (actor_id, actor_username, action, entity_type, entity_id, before, after)
+  VALUES (
+    v_actor,
+    (SELECT username FROM profiles WHERE user_id = v_actor),
+    lower(TG_OP),
+    TG_TABLE_NAME,
+    coalesce(v_after, v_before)->>'id',
+    v_before,
+    v_after
+  );
+
+  RETURN NULL;
+END;
+$function$;
@@ -0,0 +1,154 @@
+-- Bulk parts import from CSV
+-- Rows are matched to existing parts by barcode, or by name within the
+-- category for parts that have no barcode yet. A dry run reports what each
+-- row would do (create, update, unchanged, conflict or error) without writing;
+-- applying runs the same checks and writes only the rows that pass. Blank
+-- description, quantity or image URL leave an existing part's value as it is.
+
+CREATE OR REPLACE FUNCTION public.import_parts(p_rows jsonb, p_dry_run boolean DEFAULT true)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_row jsonb;
+  v_line integer;
+  v_category text;
+  v_name text;
+  v_description text;
+  v_quantity_text text;
+  v_quantity integer;
+  v_barcode text;
+  v_image_url text;
+  v_category_id integer;
+  v_part parts%ROWTYPE;
+  v_matches integer;
+  v_name_key text;
+  -- First line each barcode and barcode-less part name appeared on
+  v_seen jsonb := '{}'::jsonb;
+  v_action text;
+  v_message text;
+  v_results jsonb := '[]'::jsonb;
+BEGIN
+  IF get_user_role(auth.uid()) IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can import parts' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  FOR v_row IN SELECT value FROM jsonb_array_elements(p_rows) LOOP
+    v_line := (v_row->>'line')::integer;
+    v_category := nullif(trim(v_row->>'category'), '');
+    v_name := nullif(trim(v_row->>'name'), '');
+    v_description := nullif(trim(v_row->>'description'), '');
+    v_quantity_text := nullif(trim(v_row->>'quantity'), '');
+    -- Cast only what fits an integer; anything else is reported on its row
+    v_quantity := CASE WHEN v_quantity_text ~ '^-?\d{1,9}$' THEN v_quantity_text::integer END;
+    v_barcode := nullif(trim(v_row->>'barcode'), '');
+    v_image_url := nullif(trim(v_row->>'image_url'), '');
+    v_action := NULL;
+    v_message := NULL;
+    v_part := NULL;
+
+    SELECT id INTO v_category_id FROM categories WHERE lower(name) = lower(v_category);
+    v_name_key := 'name:' || v_category_id || ':' || lower(v_name);
+
+    IF v_category IS NULL OR v_name IS NULL THEN
+      v_action := 'error';
+      v_message := 'Category and part name are required';
+    ELSIF v_quantity_text !~ '^-?\d+$' THEN
+      v_action := 'error';
+      v_message := format('Quantity "%s" isn''t a whole number', v_quantity_text);
+    ELSIF v_quantity_text IS NOT NULL AND v_quantity IS NULL THEN
+      v_action := 'error';
+      v_message := 'Quantity is too large';
+    ELSIF v_quantity < 0 THEN
+      v_action := 'error';
+      v_message := 'Quantity can''t be negative';
+    ELSIF v_category_id IS NULL THEN
+      v_action := 'error';
+      v_message := format('Unknown category "%s"', v_category);
+    ELSIF v_barcode IS NOT NULL AND v_seen ? ('barcode:' || v_barcode) THEN
+      v_action := 'conflict';
+      v_message := format('Barcode %s is also on line %s', v_barcode, v_seen->>('barcode:' || v_barcode));
+    ELSIF v_barcode IS NULL AND v_seen ? v_name_key THEN
+      v_action := 'conflict';
+      v_message := format('"%s" is also on line %s', v_name, v_seen->>v_name_key);
+    ELSE
+      IF v_barcode IS NOT NULL THEN
+        v_seen := v_seen || jsonb_build_object('barcode:' || v_barcode, v_line);
+        SELECT * INTO v_part FROM parts WHERE barcode = v_barcode;
+
+        IF FOUND AND v_part.category_id <> v_category_id THEN
+          v_action := 'conflict';
+          v_message := format('Barcode %s already belongs to "%s" in another category', v_barcode, v_part.name);
+        END IF;
+      ELSE
+        v_seen := v_seen || jsonb_build_object(v_name_key, v_line);
+      END IF;
+
+      -- Fall back to the name, but never take over a part that has its own barcode
+      IF v_action IS NULL AND v_part.id IS NULL THEN
+        SELECT count(*) INTO v_matches
+        FROM parts
+        WHERE category_id = v_category_id
+          AND lower(name) = lower(v_name)
+          AND (v_barcode IS NULL OR barcode IS NULL);
+
+        IF v_matches > 1 THEN
+          v_action := 'conflict';
+          v_message := format('%s parts are named "%s" in this category; add a barcode to pick one', v_matches, v_name);
+        ELSIF v_matches = 1 THEN
+          SELECT * INTO v_part
+          FROM parts
+          WHERE category_id = v_category_id
+            AND lower(name) = lower(v_name)
+            AND (v_barcode IS NULL OR barcode IS NULL);
+        END IF;
+      END IF;
+
+      IF v_action IS NOT NULL THEN
+        NULL;
+      ELSIF v_part.id IS NULL THEN
+        v_action := 'create';
+
+        IF NOT p_dry_run THEN
+          INSERT INTO parts (category_id, name, description, quantity, barcode, image_url)
+          VALUES (v_category_id, v_name, v_description, coalesce(v_quantity, 0), v_barcode, v_image_url)
+          RETURNING * INTO v_part;
+        END IF;
+      ELSIF v_part.name = v_name
+        AND v_part.description IS NOT DISTINCT FROM coalesce(v_description, v_part.description)
+        AND v_part.quantity = coalesce(v_quantity, v_part.quantity)
+        AND v_part.barcode IS NOT DISTINCT FROM coalesce(v_barcode, v_part.barcode)
+        AND v_part.image_url IS NOT DISTINCT FROM coalesce(v_image_url, v_part.image_url)
+      THEN
+        v_action := 'unchanged';
+      ELSE
+        v_action := 'update';
+
+        IF NOT p_dry_run THEN
+          UPDATE parts
+          SET name = v_name,
+              description = coalesce(v_description, description),
+              quantity = coalesce(v_quantity, quantity),
+              barcode = coalesce(v_barcode, barcode),
+              image_url = coalesce(v_image_url, image_url)
+          WHERE id = v_part.id;
+        END IF;
+      END IF;
+    END IF;
+
+    v_results := v_results || jsonb_build_object(
+      'line', v_line,
+      'action', v_action,
+      'part_id', v_part.id,
+      'message', v_message
+    );
+  END LOOP;
+
+  RETURN jsonb_build_object('dry_run', p_dry_run, 'rows', v_results);
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.import_parts(jsonb, boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.import_parts(jsonb, boolean) TO authenticated;
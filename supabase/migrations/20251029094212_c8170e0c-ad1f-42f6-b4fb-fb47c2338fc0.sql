@@ -0,0 +1,280 @@
+-- Restore a JSON backup taken from the admin settings page
+-- The archive carries rows for the restorable tables keyed by table name.
+-- Three modes decide what happens to rows that already exist:
+--   merge     keeps existing rows and only adds the missing ones; archived
+--             reservations that are still reserved or issued are reported as
+--             conflicts, as today's stock counts hold no units for them
+--   overwrite replaces existing rows with the archived copy
+--   replace   clears the restorable tables first (profiles excepted, as each
+--             belongs to a login account) and loads the archive into them
+-- Rows that still can't be written, e.g. a profile whose account no longer
+-- exists or a name now taken by another row, are skipped and reported as
+-- conflicts. A dry run does all the work and rolls it back. A restore is
+-- audited as one entry rather than one per restored row.
+
+ALTER TABLE public.stock_movements DROP CONSTRAINT IF EXISTS stock_movements_reason_check;
+ALTER TABLE public.stock_movements ADD CONSTRAINT stock_movements_reason_check
+  CHECK (reason IN (
+    'initial',
+    'restock',
+    'reservation',
+    'return',
+    'cancellation',
+    'expiry',
+    'write_off',
+    'manual_correction',
+    'restore'
+  ));
+
+-- Writes one table's archived rows, each in its own savepoint so a bad row
+-- doesn't abort the rest
+CREATE OR REPLACE FUNCTION public.restore_backup_table(p_table text, p_rows jsonb, p_overwrite boolean)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_relation regclass := format('public.%I', p_table)::regclass;
+  v_key_columns text[];
+  v_columns text;
+  v_updates text;
+  v_sql text;
+  v_row jsonb;
+  v_inserted boolean;
+  v_insert_count integer := 0;
+  v_update_count integer := 0;
+  v_skip_count integer := 0;
+  v_conflict_count integer := 0;
+  v_conflicts jsonb := '[]'::jsonb;
+BEGIN
+  IF p_rows IS NULL OR jsonb_typeof(p_rows) <> 'array' OR jsonb_array_length(p_rows) = 0 THEN
+    RETURN jsonb_build_object('inserted', 0, 'updated', 0, 'skipped', 0, 'conflicts', 0, 'conflict_rows', '[]'::jsonb);
+  END IF;
+
+  SELECT array_agg(a.attname::text ORDER BY a.attnum)
+  INTO v_key_columns
+  FROM pg_index i
+  JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = ANY (i.indkey)
+  WHERE i.indrelid = v_relation AND i.indisprimary;
+
+  -- Only the columns the archive carries, so archives taken before a column
+  -- was added still load and the new column keeps its default
+  SELECT
+    string_agg(quote_ident(a.attname), ', ' ORDER BY a.attnum),
+    string_agg(format('%1$I = EXCLUDED.%1$I', a.attname), ', ' ORDER BY a.attnum)
+      FILTER (WHERE NOT a.attname::text = ANY (v_key_columns))
+  INTO v_columns, v_updates
+  FROM pg_attribute a
+  WHERE a.attrelid = v_relation
+    AND a.attnum > 0
+    AND NOT a.attisdropped
+    AND EXISTS (SELECT 1 FROM jsonb_array_elements(p_rows) AS r(value) WHERE r.value ? a.attname);
+
+  v_sql := format(
+    'INSERT INTO public.%1$I (%2$s) SELECT %2$s FROM jsonb_populate_record(NULL::public.%1$I, $1) '
+      || 'ON CONFLICT (%3$s) DO %4$s RETURNING (xmax = 0)',
+    p_table,
+    v_columns,
+    (SELECT string_agg(quote_ident(k), ', ') FROM unnest(v_key_columns) AS k),
+    CASE WHEN p_overwrite AND v_updates IS NOT NULL THEN 'UPDATE SET ' || v_updates ELSE 'NOTHING' END
+  );
+
+  FOR v_row IN SELECT value FROM jsonb_array_elements(p_rows) LOOP
+    BEGIN
+      v_inserted := NULL;
+      EXECUTE v_sql INTO v_inserted USING v_row;
+
+      IF v_inserted THEN
+        v_insert_count := v_insert_count + 1;
+      ELSIF NOT v_inserted THEN
+        v_update_count := v_update_count + 1;
+      ELSE
+        v_skip_count := v_skip_count + 1;
+      END IF;
+    EXCEPTION WHEN integrity_constraint_violation OR data_exception THEN
+      v_conflict_count := v_conflict_count + 1;
+      IF jsonb_array_length(v_conflicts) < 100 THEN
+        v_conflicts := v_conflicts || jsonb_build_object(
+          'table', p_table,
+          'key', (SELECT jsonb_object_agg(k, v_row->k) FROM unnest(v_key_columns) AS k),
+          'message', SQLERRM
+        );
+      END IF;
+    END;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'inserted', v_insert_count,
+    'updated', v_update_count,
+    'skipped', v_skip_count,
+    'conflicts', v_conflict_count,
+    'conflict_rows', v_conflicts
+  );
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.restore_backup_table(text, jsonb, boolean) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.restore_backup(p_archive jsonb, p_mode text DEFAULT 'merge', p_dry_run boolean DEFAULT true)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  -- Parents before children, so foreign keys resolve as the rows go in
+  v_tables text[] := ARRAY[
+    'app_settings',
+    'teams',
+    'events',
+    'categories',
+    'event_teams',
+    'event_category_limits',
+    'parts',
+    'profiles',
+    'inventory_tracking'
+  ];
+  v_table text;
+  v_deleted integer;
+  v_rows jsonb;
+  v_held jsonb;
+  v_result jsonb;
+  v_summary jsonb := '{}'::jsonb;
+  v_conflicts jsonb := '[]'::jsonb;
+BEGIN
+  IF get_user_role(auth.uid()) IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can restore backups' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_mode IS NULL OR p_mode NOT IN ('merge', 'overwrite', 'replace') THEN
+    RAISE EXCEPTION 'Unknown restore mode %', p_mode USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF p_archive->>'format' IS DISTINCT FROM 'robothon-inventory-backup'
+    OR jsonb_typeof(p_archive->'version') IS DISTINCT FROM 'number'
+    OR (p_archive->>'version')::numeric > 1
+    OR jsonb_typeof(p_archive->'tables') IS DISTINCT FROM 'object' THEN
+    RAISE EXCEPTION 'Not a supported backup archive' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  BEGIN
+    -- Archived reservations are history, not new activity: they must not move
+    -- stock, restart timers or be held to today's status rules
+    ALTER TABLE public.inventory_tracking
+      DISABLE TRIGGER enforce_inventory_status_transition,
+      DISABLE TRIGGER apply_inventory_stock_effects,
+      DISABLE TRIGGER set_reservation_expiry,
+      DISABLE TRIGGER set_loan_due_date,
+      DISABLE TRIGGER set_reservation_team,
+      DISABLE TRIGGER set_reservation_event,
+      DISABLE TRIGGER audit_inventory_tracking;
+
+    -- The restore is logged once as a whole below, not once per row it touches
+    ALTER TABLE public.app_settings DISABLE TRIGGER audit_app_settings;
+    ALTER TABLE public.teams DISABLE TRIGGER audit_teams;
+    ALTER TABLE public.events DISABLE TRIGGER audit_events;
+    ALTER TABLE public.categories DISABLE TRIGGER audit_categories;
+    ALTER TABLE public.parts DISABLE TRIGGER audit_parts;
+    ALTER TABLE public.profiles DISABLE TRIGGER audit_profiles;
+
+    PERFORM set_stock_movement_context('restore');
+
+    IF p_mode = 'replace' THEN
+      FOR v_table IN
+        SELECT t FROM unnest(v_tables) WITH ORDINALITY AS x(t, n)
+        WHERE t NOT IN ('app_settings', 'profiles')
+        ORDER BY n DESC
+      LOOP
+        EXECUTE format('DELETE FROM public.%I WHERE true', v_table);
+        GET DIAGNOSTICS v_deleted = ROW_COUNT;
+        v_summary := v_summary || jsonb_build_object(v_table, jsonb_build_object('deleted', v_deleted));
+      END LOOP;
+    END IF;
+
+    FOREACH v_table IN ARRAY v_tables LOOP
+      v_rows := p_archive->'tables'->v_table;
+      v_held := '[]'::jsonb;
+
+      -- Merging keeps the current part quantities, which already take out the
+      -- units of today's open reservations but not those of archived ones
+      IF p_mode = 'merge' AND v_table = 'inventory_tracking' AND jsonb_typeof(v_rows) = 'array' THEN
+        SELECT
+          coalesce(jsonb_agg(r.value) FILTER (WHERE NOT r.held), '[]'::jsonb),
+          coalesce(jsonb_agg(jsonb_build_object(
+            'table', v_table,
+            'key', jsonb_build_object('id', r.value->'id'),
+            'message', format('Still %s in the backup; merging keeps current stock, which holds no units for it', r.value->>'status')
+          )) FILTER (WHERE r.held), '[]'::jsonb)
+        INTO v_rows, v_held
+        FROM (
+          SELECT
+            e.value,
+            coalesce(e.value->>'status' IN ('reserved', 'issued'), false)
+              AND NOT EXISTS (SELECT 1 FROM inventory_tracking t WHERE t.id::text = e.value->>'id') AS held
+          FROM jsonb_array_elements(v_rows) AS e(value)
+        ) AS r;
+      END IF;
+
+      v_result := restore_backup_table(v_table, v_rows, p_mode <> 'merge');
+      v_summary := v_summary || jsonb_build_object(
+        v_table,
+        coalesce(v_summary->v_table, '{}'::jsonb)
+          || (v_result - 'conflict_rows')
+          || jsonb_build_object('conflicts', (v_result->>'conflicts')::integer + jsonb_array_length(v_held))
+      );
+      v_conflicts := v_conflicts || v_held || (v_result->'conflict_rows');
+    END LOOP;
+
+    ALTER TABLE public.inventory_tracking
+      ENABLE TRIGGER enforce_inventory_status_transition,
+      ENABLE TRIGGER apply_inventory_stock_effects,
+      ENABLE TRIGGER set_reservation_expiry,
+      ENABLE TRIGGER set_loan_due_date,
+      ENABLE TRIGGER set_reservation_team,
+      ENABLE TRIGGER set_reservation_event,
+      ENABLE TRIGGER audit_inventory_tracking;
+
+    ALTER TABLE public.app_settings ENABLE TRIGGER audit_app_settings;
+    ALTER TABLE public.teams ENABLE TRIGGER audit_teams;
+    ALTER TABLE public.events ENABLE TRIGGER audit_events;
+    ALTER TABLE public.categories ENABLE TRIGGER audit_categories;
+    ALTER TABLE public.parts ENABLE TRIGGER audit_parts;
+    ALTER TABLE public.profiles ENABLE TRIGGER audit_profiles;
+
+    IF p_dry_run THEN
+      RAISE EXCEPTION 'Dry run' USING ERRCODE = 'RB002';
+    END IF;
+
+    -- Restored rows keep their archived ids, so new rows must number after
+    -- them. Sequences ignore rollbacks, hence only once the dry run is past.
+    PERFORM setval(pg_get_serial_sequence('public.categories', 'id'), coalesce((SELECT max(id) FROM categories), 0) + 1, false);
+    PERFORM setval(pg_get_serial_sequence('public.parts', 'id'), coalesce((SELECT max(id) FROM parts), 0) + 1, false);
+  EXCEPTION WHEN SQLSTATE 'RB002' THEN
+    -- Rolls back everything above; the counts are kept in the variables
+    NULL;
+  END;
+
+  IF NOT p_dry_run THEN
+    INSERT INTO audit_log (actor_id, actor_username, action, entity_type, entity_id, after)
+    VALUES (
+      auth.uid(),
+      (SELECT username FROM profiles WHERE user_id = auth.uid()),
+      'restore',
+      'backup',
+      p_archive->>'created_at',
+      jsonb_build_object('mode', p_mode, 'archive_created_at', p_archive->>'created_at', 'tables', v_summary)
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'dry_run', p_dry_run,
+    'mode', p_mode,
+    'tables', v_summary,
+    'conflicts', v_conflicts
+  );
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.restore_backup(jsonb, text, boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.restore_backup(jsonb, text, boolean) TO authenticated;
@@ -0,0 +1,112 @@
+-- Issue times for returns
+-- A return by barcode closes the team's longest-held unit of the part. That
+-- used to go by scanned_at, which is when the unit was reserved, not when it
+-- was handed over, so it now goes by the new issued_at. The trigger that sets
+-- the due date on issue also stamps the issue time. Units already out take
+-- their reservation time, which keeps the order they were returned in before.
+
+ALTER TABLE public.inventory_tracking
+ADD COLUMN issued_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.inventory_tracking.issued_at IS 'When the unit was last handed over; NULL if it never was';
+
+UPDATE public.inventory_tracking
+SET issued_at = scanned_at
+WHERE status = 'issued';
+
+CREATE OR REPLACE FUNCTION public.set_loan_due_date()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.status = 'issued'
+     AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'issued') THEN
+    NEW.issued_at := CASE WHEN TG_OP = 'INSERT' THEN coalesce(NEW.issued_at, now()) ELSE now() END;
+
+    IF NEW.due_at IS NULL AND NEW.part_id IS NOT NULL THEN
+      SELECT now() + make_interval(hours => c.loan_period_hours)
+      INTO NEW.due_at
+      FROM parts p
+      JOIN categories c ON c.id = p.category_id
+      WHERE p.id = NEW.part_id;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.return_issued_by_barcode(
+  p_barcode text,
+  p_team_id uuid DEFAULT NULL,
+  p_condition text DEFAULT 'ok'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_part parts%ROWTYPE;
+  v_record inventory_tracking%ROWTYPE;
+  v_status text;
+  v_team_name text;
+  v_member_username text;
+BEGIN
+  IF NOT is_admin_or_staff(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins and desk staff can return parts' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_condition NOT IN ('ok', 'damaged') THEN
+    RAISE EXCEPTION 'Unknown condition %', p_condition USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  SELECT * INTO v_part FROM parts WHERE barcode = trim(p_barcode);
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('matched', false, 'reason', 'unknown_barcode', 'barcode', p_barcode);
+  END IF;
+
+  SELECT * INTO v_record
+  FROM inventory_tracking
+  WHERE part_id = v_part.id
+    AND status = 'issued'
+    AND (p_team_id IS NULL OR team_id = p_team_id)
+  -- Archived units restored without an issue time fall back to their reservation time
+  ORDER BY coalesce(issued_at, scanned_at), id
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'matched', false,
+      'reason', 'not_issued',
+      'barcode', p_barcode,
+      'part_id', v_part.id,
+      'part_name', v_part.name
+    );
+  END IF;
+
+  v_status := CASE WHEN p_condition = 'damaged' THEN 'damaged' ELSE 'returned' END;
+
+  UPDATE inventory_tracking
+  SET status = v_status
+  WHERE id = v_record.id;
+
+  SELECT name INTO v_team_name FROM teams WHERE id = v_record.team_id;
+  SELECT username INTO v_member_username FROM profiles WHERE id = v_record.team_user_id;
+
+  RETURN jsonb_build_object(
+    'matched', true,
+    'tracking_id', v_record.id,
+    'barcode', p_barcode,
+    'part_id', v_part.id,
+    'part_name', v_part.name,
+    'team_id', v_record.team_id,
+    'team_name', v_team_name,
+    'member_username', v_member_username,
+    'status', v_status
+  );
+END;
+$function$;